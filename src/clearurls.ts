@@ -0,0 +1,134 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { isRecord } from "./migrations.ts";
+import { createRule, createRuleSet, type RuleConfig, type RuleSet } from "./settings.ts";
+
+/** Id of the rule set holding imported ClearURLs rules, replaced on every import. */
+export const CLEARURLS_RULE_SET_ID = "clearurls";
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.length > 0)
+    : [];
+}
+
+/** Turns ClearURLs parameter regexes into a single regex entry of a query rule. */
+function toParamPattern(rules: string[]): string {
+  // Slashes end the entry in the parameter list, so all of them have to be escaped
+  const sources = rules.map((rule) => rule.replace(/\\?\//g, "\\/"));
+  return `/^(?:${sources.join("|")})$/`;
+}
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts the ClearURLs rule data (data.min.json) into a rule set. Every
+ * provider becomes a handful of rules limited to URLs matching its urlPattern
+ * and not matching its exceptions: tracking parameters, referral marketing
+ * parameters, raw rules and redirections, the latter ahead of all other
+ * rules. Providers blocking whole URLs
+ * (completeProvider) and providers with invalid regexes are skipped.
+ */
+export function convertClearUrls(data: unknown): { ruleSet: RuleSet; skipped: string[] } {
+  if (!isRecord(data) || !isRecord(data.providers)) {
+    throw new Error('Not a ClearURLs rule file, the "providers" object is missing.');
+  }
+
+  // Redirections run first, so the rules of all providers see the unwrapped target
+  const redirectRules: RuleConfig[] = [];
+  const rules: RuleConfig[] = [];
+  const skipped: string[] = [];
+  for (const name of Object.keys(data.providers)) {
+    const provider = data.providers[name];
+    if (
+      !isRecord(provider) ||
+      typeof provider.urlPattern !== "string" ||
+      provider.completeProvider
+    ) {
+      skipped.push(name);
+      continue;
+    }
+
+    const urlPattern = provider.urlPattern;
+    const urlExceptions = stringList(provider.exceptions);
+    const params = stringList(provider.rules);
+    const referralMarketing = stringList(provider.referralMarketing);
+    const rawRules = stringList(provider.rawRules);
+    const redirections = stringList(provider.redirections);
+
+    const sources = [urlPattern, ...urlExceptions, ...params, ...referralMarketing];
+    if (!sources.concat(rawRules, redirections).every(isValidRegex)) {
+      skipped.push(name);
+      continue;
+    }
+
+    const idPrefix = `clearurls-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+    const scope = { urlPattern, urlExceptions, flags: "i" };
+    if (params.length > 0) {
+      rules.push(
+        createRule({
+          ...scope,
+          id: `${idPrefix}-params`,
+          name: `${name}: tracking parameters`,
+          pattern: toParamPattern(params),
+          mode: "query",
+        }),
+      );
+    }
+    if (referralMarketing.length > 0) {
+      rules.push(
+        createRule({
+          ...scope,
+          id: `${idPrefix}-referral`,
+          name: `${name}: referral marketing`,
+          pattern: toParamPattern(referralMarketing),
+          mode: "query",
+        }),
+      );
+    }
+    rawRules.forEach((pattern, i) => {
+      rules.push(
+        createRule({
+          ...scope,
+          id: `${idPrefix}-raw-${i + 1}`,
+          name: `${name}: raw rule ${i + 1}`,
+          pattern,
+          mode: "regex",
+        }),
+      );
+    });
+    redirections.forEach((pattern, i) => {
+      redirectRules.push(
+        createRule({
+          ...scope,
+          id: `${idPrefix}-redirect-${i + 1}`,
+          name: `${name}: redirect ${i + 1}`,
+          pattern,
+          mode: "redirect",
+        }),
+      );
+    });
+  }
+
+  return {
+    ruleSet: createRuleSet({
+      id: CLEARURLS_RULE_SET_ID,
+      name: "ClearURLs",
+      collapsed: true,
+      rules: redirectRules.concat(rules),
+    }),
+    skipped,
+  };
+}
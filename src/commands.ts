@@ -0,0 +1,277 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { Notice, TFolder, parseYaml } from "obsidian";
+import type { Editor, TFile } from "obsidian";
+import { cleanText, insertPaste, readClipboard } from "./events.ts";
+import type PasteCleaner from "./main.ts";
+import { runRules, type CompiledRule } from "./rule.ts";
+import { readRuleFile, type RuleFileContents } from "./ruleFile.ts";
+import { CleanPreviewModal, type CleanPreviewItem } from "./ui/cleanPreviewModal.ts";
+import { ExportRulesModal } from "./ui/exportRulesModal.ts";
+import { FolderModal } from "./ui/folderModal.ts";
+import { ImportRulesModal } from "./ui/importRulesModal.ts";
+import { VaultFileModal } from "./ui/vaultFileModal.ts";
+
+/** Extensions of the rule files the import accepts */
+export const RULE_FILE_EXTENSIONS = ["json", "yaml", "yml"];
+
+const RULE_SET_COMMAND_PREFIX = "paste-with-rule-set-";
+
+/**
+ * Pastes the clipboard into the editor, cleaned with the given rules or as it
+ * is. Cleaned pastes go through confirm mode and the paste history like the
+ * ones of a paste event.
+ */
+async function pasteFromClipboard(plugin: PasteCleaner, editor: Editor, rules: CompiledRule[]) {
+  try {
+    const source = await readClipboard.call(plugin);
+    if (rules.length === 0) {
+      editor.replaceSelection(source);
+      return;
+    }
+
+    const report = cleanText.call(plugin, source, rules);
+    plugin.recordPaste(source, report);
+    if (report.result !== source) {
+      insertPaste.call(plugin, editor, source, report);
+    } else {
+      editor.replaceSelection(source);
+    }
+  } catch (e) {
+    console.error("Paste Cleaner: Failed to paste from the clipboard:", e);
+  }
+}
+
+/**
+ * Shows the notes the active rules would change, and cleans them once the user
+ * confirms. Every note is written with Vault.process(), one edit per file.
+ */
+export async function cleanFiles(
+  plugin: PasteCleaner,
+  files: TFile[],
+  onCleaned?: () => Promise<void>,
+) {
+  const rules = plugin.rules;
+  const items: CleanPreviewItem[] = [];
+  for (const file of files) {
+    const { matches, changes } = runRules(await plugin.app.vault.cachedRead(file), rules);
+    if (changes.length > 0) {
+      items.push({ file, matches, changes });
+    }
+  }
+
+  if (items.length === 0) {
+    new Notice("Nothing to clean.");
+    return;
+  }
+
+  new CleanPreviewModal(plugin.app, items, async () => {
+    let cleaned = 0;
+    for (const item of items) {
+      try {
+        await plugin.app.vault.process(item.file, (data) => {
+          const report = runRules(data, rules);
+          plugin.recordRuleStats(report);
+          return report.result;
+        });
+        cleaned++;
+      } catch (e) {
+        console.error(`Paste Cleaner: Failed to clean "${item.file.path}":`, e);
+      }
+    }
+    new Notice(cleaned === 1 ? "Cleaned 1 note." : `Cleaned ${cleaned} notes.`);
+    await onCleaned?.();
+  }).open();
+}
+
+async function cleanFolder(plugin: PasteCleaner, folder: TFolder) {
+  const prefix = folder.isRoot() ? "" : folder.path + "/";
+  await cleanFiles(
+    plugin,
+    plugin.app.vault.getMarkdownFiles().filter((file) => file.path.startsWith(prefix)),
+  );
+}
+
+/** Asks which rules to export and writes them to a file in the vault. */
+export function exportRules(plugin: PasteCleaner) {
+  new ExportRulesModal(plugin.app, plugin.ruleSets, async (ruleSetId, format) => {
+    try {
+      const file = await plugin.exportRules(ruleSetId, format);
+      new Notice(`Exported rules to ${file.path}.`);
+    } catch (e) {
+      console.error("Paste Cleaner: Failed to export rules:", e);
+      new Notice(`Failed to export rules: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }).open();
+}
+
+/**
+ * Reads a JSON or YAML rule file and lets the user merge it into the rule sets
+ * or replace them, after showing what the file contains and what is skipped.
+ */
+export function importRuleFile(
+  plugin: PasteCleaner,
+  fileName: string,
+  text: string,
+  onImported?: () => void,
+) {
+  let contents: RuleFileContents;
+  try {
+    contents = readRuleFile(fileName.endsWith(".json") ? JSON.parse(text) : parseYaml(text));
+  } catch (e) {
+    console.error(`Paste Cleaner: Failed to read rule file "${fileName}":`, e);
+    new Notice(`Failed to import ${fileName}: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+
+  new ImportRulesModal(plugin.app, fileName, contents, async (mode) => {
+    try {
+      const { added, duplicates } = await plugin.importRules(contents.ruleSets, mode);
+      new Notice(
+        `Imported ${added} rules from ${fileName}` +
+          (duplicates > 0 ? `, skipped ${duplicates} duplicates.` : "."),
+      );
+      onImported?.();
+    } catch (e) {
+      console.error(`Paste Cleaner: Failed to import rules from "${fileName}":`, e);
+      new Notice(`Failed to import ${fileName}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }).open();
+}
+
+export function registerCommands(plugin: PasteCleaner) {
+  plugin.addCommand({
+    id: "paste-without-cleaning",
+    name: "Paste without cleaning",
+    editorCallback: (editor) => pasteFromClipboard(plugin, editor, []),
+  });
+
+  plugin.addCommand({
+    id: "paste-cleaned",
+    name: "Paste cleaned",
+    editorCallback: (editor) => pasteFromClipboard(plugin, editor, plugin.rules),
+  });
+
+  plugin.addCommand({
+    id: "clean-selection",
+    name: "Clean selection",
+    editorCheckCallback: (checking, editor) => {
+      const selection = editor.getSelection();
+      if (selection === "") {
+        return false;
+      }
+      if (!checking) {
+        const report = runRules(selection, plugin.rules);
+        if (report.result !== selection) {
+          editor.replaceSelection(report.result);
+        }
+        plugin.recordRuleStats(report);
+        new Notice(report.matches > 0 ? `Cleaned ${report.matches} matches.` : "Nothing to clean.");
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "clean-current-note",
+    name: "Clean current note",
+    checkCallback: (checking) => {
+      const file = plugin.app.workspace.getActiveFile();
+      if (!file || file.extension !== "md") {
+        return false;
+      }
+      if (!checking) {
+        void cleanFiles(plugin, [file]);
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "clean-folder",
+    name: "Clean notes in folder...",
+    callback: () => {
+      new FolderModal(plugin.app, (folder) => void cleanFolder(plugin, folder)).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: "scan-vault",
+    name: "Scan vault for rule matches",
+    callback: async () => {
+      const view = await plugin.openScanReport();
+      await view?.scan();
+    },
+  });
+
+  plugin.addCommand({
+    id: "export-rules",
+    name: "Export rules...",
+    callback: () => exportRules(plugin),
+  });
+
+  plugin.addCommand({
+    id: "import-rules",
+    name: "Import rules...",
+    checkCallback: (checking) => {
+      // Imported rules would end up in the settings, unused while the rules note is
+      if (plugin.settings.rulesNotePath) {
+        return false;
+      }
+      if (!checking) {
+        new VaultFileModal(plugin.app, RULE_FILE_EXTENSIONS, async (file) => {
+          importRuleFile(plugin, file.path, await plugin.app.vault.cachedRead(file), () =>
+            plugin.settingsTab?.display(),
+          );
+        }).open();
+      }
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: "open-paste-history",
+    name: "Open paste history",
+    callback: () => plugin.openPasteHistory(),
+  });
+
+  plugin.registerEvent(
+    plugin.app.workspace.on("file-menu", (menu, file) => {
+      if (file instanceof TFolder) {
+        menu.addItem((item) => {
+          item
+            .setTitle("Clean notes in folder")
+            .setIcon("eraser")
+            .onClick(() => cleanFolder(plugin, file));
+        });
+      }
+    }),
+  );
+}
+
+/**
+ * Registers a "Paste with rule set" command for every rule set, replacing the
+ * commands of rule sets that were renamed or deleted. Rule sets are applied
+ * even when they are switched off, so sets can be kept for manual use only.
+ */
+export function updateRuleSetCommands(plugin: PasteCleaner) {
+  for (const id of plugin.ruleSetCommandIds) {
+    plugin.removeCommand(id);
+  }
+
+  plugin.ruleSetCommandIds = plugin.ruleSets.map((ruleSet) => {
+    const id = RULE_SET_COMMAND_PREFIX + ruleSet.id;
+    plugin.addCommand({
+      id,
+      name: `Paste with rule set "${ruleSet.name || "Unnamed rule set"}"`,
+      editorCallback: (editor) =>
+        pasteFromClipboard(plugin, editor, plugin.compileRuleSet(ruleSet.id)),
+    });
+    return id;
+  });
+}
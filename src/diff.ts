@@ -0,0 +1,214 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+interface DiffSegment {
+  type: "equal" | "removed" | "added";
+  text: string;
+}
+
+// Words, runs of whitespace and single other characters, so URLs diff by their parts
+const TOKEN_PATTERN = /\w+|\s+|[^\w\s]/g;
+
+// Single characters, for comparing words that differ
+const CHAR_PATTERN = /[\s\S]/g;
+
+// Beyond this many edits the texts are shown as entirely replaced
+const MAX_EDITS = 2000;
+
+/**
+ * Myers' algorithm on token lists. Returns null when the lists differ by more
+ * than MAX_EDITS tokens.
+ */
+function diffTokens(a: string[], b: string[]): DiffSegment[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+
+  // Furthest x reached on each diagonal k = x - y before every round, only the
+  // diagonals the round can look at are kept
+  const trace: number[][] = [];
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) {
+    return null;
+  }
+
+  const segments: DiffSegment[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      segments.push({ type: "equal", text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        segments.push({ type: "added", text: b[--y] });
+      } else {
+        segments.push({ type: "removed", text: a[--x] });
+      }
+    }
+  }
+  return segments.reverse();
+}
+
+/** Appends a part, merged into the last one when both have the same type. */
+function pushSegment(segments: DiffSegment[], part: DiffSegment) {
+  const last = segments[segments.length - 1];
+  if (part.text === "") {
+    return;
+  } else if (last && last.type === part.type) {
+    last.text += part.text;
+  } else {
+    segments.push({ ...part });
+  }
+}
+
+/**
+ * Compares two texts word by word and returns the equal, removed and added
+ * parts in order. Neighbouring parts of the same type are merged.
+ */
+export function diffText(
+  before: string,
+  after: string,
+  tokenPattern = TOKEN_PATTERN,
+): DiffSegment[] {
+  const a = before.match(tokenPattern) ?? [];
+  const b = after.match(tokenPattern) ?? [];
+
+  // Cleaning usually touches little, so skip the common start and end up front
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = diffTokens(middleA, middleB) ?? [
+    { type: "removed", text: middleA.join("") },
+    { type: "added", text: middleB.join("") },
+  ];
+
+  const segments: DiffSegment[] = [];
+  const parts: DiffSegment[] = [
+    { type: "equal", text: a.slice(0, start).join("") },
+    ...middle,
+    { type: "equal", text: a.slice(endA).join("") },
+  ];
+  for (const part of parts) {
+    pushSegment(segments, part);
+  }
+  return segments;
+}
+
+/**
+ * Compares two texts like diffText(), then compares replaced words character
+ * by character where they mostly agree. Removing a letter from a word shows
+ * as just that letter, while unrelated words are still replaced as a whole.
+ */
+export function diffChars(before: string, after: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const words = diffText(before, after);
+  for (let i = 0; i < words.length; i++) {
+    const removed = words[i].type === "removed" ? words[i] : words[i + 1];
+    const added = words[i].type === "added" ? words[i] : words[i + 1];
+    if (words[i].type === "equal" || removed?.type !== "removed" || added?.type !== "added") {
+      pushSegment(segments, words[i]);
+      continue;
+    }
+
+    i++;
+    const chars = diffText(removed.text, added.text, CHAR_PATTERN);
+    const equal = chars
+      .filter((segment) => segment.type === "equal")
+      .reduce((sum, segment) => sum + segment.text.length, 0);
+    const refined =
+      equal * 2 >= Math.min(removed.text.length, added.text.length) ? chars : [removed, added];
+    for (const part of refined) {
+      pushSegment(segments, part);
+    }
+  }
+  return segments;
+}
+
+// A removed query parameter like "utm_source=x&" or "?fbclid=y"
+const PARAM_PATTERN = /^[?&#]?(?:[^=&?#\s/]+=[^&#\s]*&?)+$/;
+
+// How many names or snippets a summary lists before it is cut off
+const SUMMARY_ITEMS = 5;
+
+function listItems(items: string[]): string {
+  const unique = items.filter((item, i) => items.indexOf(item) === i);
+  const listed = unique.slice(0, SUMMARY_ITEMS).join(", ");
+  return unique.length > SUMMARY_ITEMS ? `${listed}, …` : listed;
+}
+
+/**
+ * Describes what cleaning changed in a few words, e.g. "Removed 2 tracking
+ * parameters (utm_source, fbclid)". Removed text that is not a query
+ * parameter is quoted instead.
+ */
+export function summarizeChanges(before: string, after: string, matches: number): string {
+  const removed = diffText(before, after)
+    .filter((segment) => segment.type === "removed")
+    .map((segment) => segment.text.trim())
+    .filter((text) => text.length > 0);
+
+  if (removed.length === 0) {
+    return matches === 1 ? "Changed 1 match" : `Changed ${matches} matches`;
+  }
+
+  if (removed.every((text) => PARAM_PATTERN.test(text))) {
+    const names: string[] = [];
+    for (const text of removed) {
+      for (const param of text.replace(/^[?&#]/, "").split("&")) {
+        if (param.length > 0) {
+          names.push(param.slice(0, param.indexOf("=")));
+        }
+      }
+    }
+    const count =
+      names.length === 1 ? "1 tracking parameter" : `${names.length} tracking parameters`;
+    return `Removed ${count} (${listItems(names)})`;
+  }
+
+  const snippets = removed.map((text) => `"${text.length > 30 ? text.slice(0, 29) + "…" : text}"`);
+  return `${matches === 1 ? "Cleaned 1 match" : `Cleaned ${matches} matches`} (${listItems(snippets)})`;
+}
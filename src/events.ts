@@ -5,48 +5,180 @@
   Licensed under the MIT license, see LICENSE file for details.
 */
 
-import { applyRules } from "./rule.ts";
+import { Notice, htmlToMarkdown } from "obsidian";
+import type { Editor } from "obsidian";
+import { summarizeChanges } from "./diff.ts";
+import { runRules, type CompiledRule, type RulesReport } from "./rule.ts";
 import type PasteCleaner from "./main.ts";
+import type { PasteChoice, RuleSet } from "./settings.ts";
+import { PasteDiffModal } from "./ui/pasteDiffModal.ts";
 
-export function onPaste(this: PasteCleaner, event: ClipboardEvent) {
-  if (event.defaultPrevented) {
-    if (this.settings.debugMode) {
-      console.debug("Paste event already prevented, skipping rules.");
+/** Applies the rules to pasted content, logging every change in debug mode. */
+export function cleanText(this: PasteCleaner, source: string, rules: CompiledRule[]): RulesReport {
+  const report = runRules(source, rules);
+  this.recordRuleStats(report);
+  if (this.settings.debugMode) {
+    for (const { rule, matches } of report.changes) {
+      console.debug(`Paste Cleaner: Rule "${rule.label}" changed ${matches} matches`);
     }
+    console.debug(
+      `Paste Cleaner: Original length: ${source.length}, Result length: ${report.result.length}`,
+    );
+    console.debug(`Paste Cleaner: '${source}' -> '${report.result}'`);
+  }
+  return report;
+}
+
+/**
+ * Replaces the selection with the cleaned text. With notices enabled, a notice
+ * summarizes the changes and offers to swap the inserted text for the original.
+ */
+function insertCleaned(this: PasteCleaner, editor: Editor, source: string, report: RulesReport) {
+  const start = editor.posToOffset(editor.getCursor("from"));
+  editor.replaceSelection(report.result);
+  if (!this.settings.showPasteNotice || report.result === source) {
     return;
   }
 
-  const types = event.clipboardData?.types;
-  if (this.settings.debugMode) {
-    console.debug("Paste Cleaner: clipboard content types:", types);
+  const from = editor.offsetToPos(start);
+  const to = editor.offsetToPos(start + report.result.length);
+  const notice = new Notice(
+    createFragment((el) => {
+      el.createSpan({ text: summarizeChanges(source, report.result, report.matches) + " " });
+      const undoButton = el.createEl("button", { text: "Undo cleaning" });
+      undoButton.addEventListener("click", (e: MouseEvent) => {
+        e.stopPropagation();
+        notice.hide();
+        // Only undo while the pasted text is still there as it was inserted
+        if (editor.getRange(from, to) !== report.result) {
+          new Notice("The pasted text was changed, cannot undo cleaning.");
+          return;
+        }
+        editor.transaction({ changes: [{ from, to, text: source }] });
+      });
+    }),
+    8000,
+  );
+}
+
+/**
+ * Inserts a cleaned paste, or lets the user pick between the original and the
+ * cleaned text in confirm mode. A choice remembered for the rule sets that
+ * changed the paste is applied without asking, changes by presets or redirect
+ * links always ask.
+ */
+export function insertPaste(
+  this: PasteCleaner,
+  editor: Editor,
+  source: string,
+  report: RulesReport,
+) {
+  if (!this.settings.confirmPastes) {
+    insertCleaned.call(this, editor, source, report);
+    return;
   }
 
-  // Check if text/plain is available (don't require it to be the ONLY type)
-  if (!types || !Array.from(types).includes("text/plain")) {
+  const ruleSets: RuleSet[] = [];
+  let choice: PasteChoice | null = null;
+  for (const { rule } of report.changes) {
+    const ruleSet = this.ruleSets.find((set) => set.id === rule.setId);
+    const setChoice = ruleSet?.pasteChoice ?? "ask";
+    choice = choice === null || choice === setChoice ? setChoice : "ask";
+    if (ruleSet && !ruleSets.includes(ruleSet)) {
+      ruleSets.push(ruleSet);
+    }
+  }
+
+  if (choice === "cleaned" || choice === "original") {
     if (this.settings.debugMode) {
-      console.debug("Paste Cleaner: No text/plain content available, skipping.");
+      console.debug(`Paste Cleaner: Inserting remembered choice "${choice}".`);
+    }
+    if (choice === "cleaned") {
+      insertCleaned.call(this, editor, source, report);
+    } else {
+      editor.replaceSelection(source);
     }
     return;
   }
 
-  const plainText = event.clipboardData?.getData("text/plain");
-  if (plainText === undefined || plainText === "") {
+  // Choices can only be remembered for rule sets stored in the settings, the rules note is
+  // read again on every change and would forget them
+  const fromPresets = report.changes.some(({ rule }) => rule.setId === "");
+  const fromNote = this.noteRuleSets !== null;
+  new PasteDiffModal(
+    this.app,
+    source,
+    report.result,
+    fromPresets || fromNote ? [] : ruleSets.map((set) => set.name || "Unnamed rule set"),
+    async (text, remember) => {
+      editor.replaceSelection(text);
+      if (remember) {
+        for (const ruleSet of ruleSets) {
+          ruleSet.pasteChoice = remember;
+        }
+        await this.saveSettings();
+      }
+    },
+  ).open();
+}
+
+/**
+ * Reads the clipboard the way a paste event sees it: Markdown converted from
+ * HTML content when rich text cleaning is enabled, the plain text otherwise.
+ */
+export async function readClipboard(this: PasteCleaner): Promise<string> {
+  if (this.settings.cleanHtml) {
+    try {
+      for (const item of await navigator.clipboard.read()) {
+        if (item.types.includes("text/html")) {
+          const blob = await item.getType("text/html");
+          return htmlToMarkdown(await blob.text());
+        }
+      }
+    } catch (e) {
+      if (this.settings.debugMode) {
+        console.debug("Paste Cleaner: Could not read text/html from the clipboard:", e);
+      }
+    }
+  }
+  return navigator.clipboard.readText();
+}
+
+export function onPaste(this: PasteCleaner, event: ClipboardEvent) {
+  if (event.defaultPrevented) {
     if (this.settings.debugMode) {
-      console.debug("Paste Cleaner: Empty text/plain content, skipping.");
+      console.debug("Paste event already prevented, skipping rules.");
     }
     return;
   }
 
-  const result = applyRules(plainText, this.rules);
+  const types = event.clipboardData?.types;
   if (this.settings.debugMode) {
-    console.debug(
-      `Paste Cleaner: Original length: ${plainText.length}, Result length: ${result.length}`,
-    );
-    console.debug(`Paste Cleaner: '${plainText}' -> '${result}'`);
+    console.debug("Paste Cleaner: clipboard content types:", types);
+  }
+
+  // Rich text gets converted to Markdown the way Obsidian does it, so cleaning
+  // it keeps links and formatting instead of falling back to the plain text
+  const html =
+    this.settings.cleanHtml && types && Array.from(types).includes("text/html")
+      ? event.clipboardData?.getData("text/html")
+      : undefined;
+  const source = html ? htmlToMarkdown(html) : event.clipboardData?.getData("text/plain");
+  if (source === undefined || source === "") {
+    if (this.settings.debugMode) {
+      console.debug("Paste Cleaner: No text/html or text/plain content available, skipping.");
+    }
+    return;
+  }
+  if (html && this.settings.debugMode) {
+    console.debug("Paste Cleaner: Cleaning Markdown converted from text/html content.");
   }
 
-  if (result !== plainText) {
-    this.app.workspace.activeEditor?.editor?.replaceSelection(result);
+  const report = cleanText.call(this, source, this.rules);
+  this.recordPaste(source, report);
+  const editor = this.app.workspace.activeEditor?.editor;
+  if (report.result !== source && editor) {
+    insertPaste.call(this, editor, source, report);
     event.preventDefault();
   }
 }
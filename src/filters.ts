@@ -0,0 +1,189 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { removeQueryParams } from "./url.ts";
+
+interface RemoveParamFilter {
+  /** "@@" filters keep parameters that other filters would remove */
+  exception: boolean;
+  /** URLs the filter applies to, null for all URLs */
+  url: RegExp | null;
+  matches: (name: string, param: string) => boolean;
+}
+
+// Options that limit a filter to the page a request is made from, which a paste does not have
+const PAGE_OPTIONS = ["domain", "from", "to", "denyallow", "method"];
+
+/** Splits filter options at commas, "\," stays part of the option. */
+function splitOptions(options: string): string[] {
+  const parts = [""];
+  for (let i = 0; i < options.length; i++) {
+    const char = options[i];
+    if (char === "\\" && options[i + 1] === ",") {
+      parts[parts.length - 1] += ",";
+      i++;
+    } else if (char === ",") {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Converts the URL part of a network filter into a regular expression:
+ * "||" anchors at the host including subdomains, "|" at the start or end of
+ * the URL, "^" matches a separator and "*" anything.
+ */
+function compileUrlPattern(pattern: string): RegExp | null {
+  if (pattern === "" || pattern === "*" || pattern === "||" || pattern === "|") {
+    return null;
+  }
+
+  const regex = /^\/(.+)\/$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], "i");
+  }
+
+  let rest = pattern;
+  let source = "";
+  if (rest.indexOf("||") === 0) {
+    source = "^[a-z][a-z0-9+.-]*://(?:[^/?#]*\\.)?";
+    rest = rest.slice(2);
+  } else if (rest[0] === "|") {
+    source = "^";
+    rest = rest.slice(1);
+  }
+
+  let end = "";
+  if (rest.length > 0 && rest[rest.length - 1] === "|") {
+    end = "$";
+    rest = rest.slice(0, -1);
+  }
+
+  for (const char of rest.split("")) {
+    if (char === "*") {
+      source += ".*";
+    } else if (char === "^") {
+      source += "(?:[^\\w.%-]|$)";
+    } else {
+      source += char.replace(/[.+?${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(source + end, "i");
+}
+
+/**
+ * Compiles a removeparam value: empty removes every parameter, "~" inverts,
+ * "/regex/" is tested against "name=value" and anything else is a name.
+ */
+function compileParamValue(value: string): (name: string, param: string) => boolean {
+  if (value === "") {
+    return () => true;
+  }
+  if (value[0] === "~") {
+    const matches = compileParamValue(value.slice(1));
+    return (name, param) => !matches(name, param);
+  }
+
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(value);
+  if (regex) {
+    const compiled = new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+    return (_name, param) => compiled.test(param);
+  }
+  return (name) => name === value;
+}
+
+/** Parses a single filter, returns null for filters without a usable removeparam option. */
+function parseFilter(filter: string): RemoveParamFilter | null {
+  const exception = filter.indexOf("@@") === 0;
+  const text = exception ? filter.slice(2) : filter;
+  const dollar = text.indexOf("$");
+  if (dollar === -1) {
+    return null;
+  }
+
+  let value: string | null = null;
+  for (const option of splitOptions(text.slice(dollar + 1))) {
+    const separator = option.indexOf("=");
+    const name = separator === -1 ? option : option.slice(0, separator);
+    if (name === "removeparam" || name === "queryprune") {
+      value = separator === -1 ? "" : option.slice(separator + 1);
+    } else if (PAGE_OPTIONS.includes(name) || name === "badfilter") {
+      return null;
+    }
+  }
+  if (value === null) {
+    return null;
+  }
+
+  return {
+    exception,
+    url: compileUrlPattern(text.slice(0, dollar)),
+    matches: compileParamValue(value),
+  };
+}
+
+// Comment lines, hosts file comments and list headers like "[Adblock Plus 2.0]"
+const COMMENT_LINE_PATTERN = /^(?:!|#|\[adblock)/i;
+
+/**
+ * Splits a filter list into filters. Lists hold one filter per line, rule
+ * patterns put several on one line separated by spaces. Comments are dropped
+ * as a whole, so filters quoted in them never become active.
+ */
+function splitFilters(list: string): string[] {
+  const filters: string[] = [];
+  for (const line of list.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (COMMENT_LINE_PATTERN.test(trimmed)) {
+      continue;
+    }
+    for (const word of trimmed.split(/\s+/)) {
+      // A "!" word starts a comment up to the end of the line
+      if (word[0] === "!") {
+        break;
+      }
+      if (word.length > 0) {
+        filters.push(word);
+      }
+    }
+  }
+  return filters;
+}
+
+/**
+ * Parses uBlock Origin / AdGuard "$removeparam" filters, one per line or
+ * separated by whitespace, e.g. "||example.com^$removeparam=ref $removeparam=/^utm_/".
+ * Other filters, and filters that depend on the page a request is made from
+ * (domain=), are ignored. Returns a function cleaning a single URL.
+ */
+export function parseRemoveParamFilters(list: string): (url: string) => string {
+  const filters = splitFilters(list)
+    .map(parseFilter)
+    .filter((filter): filter is RemoveParamFilter => filter !== null);
+  if (!filters.some((filter) => !filter.exception)) {
+    throw new Error("No $removeparam filters found.");
+  }
+
+  return (url) => {
+    const active = filters.filter((filter) => !filter.url || filter.url.test(url));
+    const removals = active.filter((filter) => !filter.exception);
+    if (removals.length === 0) {
+      return url;
+    }
+
+    const exceptions = active.filter((filter) => filter.exception);
+    return removeQueryParams(
+      url,
+      (name, param) =>
+        removals.some((filter) => filter.matches(name, param)) &&
+        !exceptions.some((filter) => filter.matches(name, param)),
+    );
+  };
+}
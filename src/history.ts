@@ -0,0 +1,92 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { isRecord } from "./migrations.ts";
+
+export interface PasteHistoryEntry {
+  /** Milliseconds since the epoch */
+  time: number;
+  notePath: string;
+  original: string;
+  cleaned: string;
+  /** Labels of the rules that changed the paste, with their match counts */
+  rules: { label: string; matches: number }[];
+}
+
+function toEntry(value: unknown): PasteHistoryEntry | null {
+  if (
+    !isRecord(value) ||
+    typeof value.time !== "number" ||
+    typeof value.original !== "string" ||
+    typeof value.cleaned !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    time: value.time,
+    notePath: typeof value.notePath === "string" ? value.notePath : "",
+    original: value.original,
+    cleaned: value.cleaned,
+    rules: Array.isArray(value.rules)
+      ? value.rules.filter(isRecord).map((rule) => ({
+          label: typeof rule.label === "string" ? rule.label : "",
+          matches: typeof rule.matches === "number" ? rule.matches : 0,
+        }))
+      : [],
+  };
+}
+
+/** Recent pastes, newest first, never more than the limit. */
+export class PasteHistory {
+  entries: PasteHistoryEntry[] = [];
+  private limit: number;
+  private listeners: (() => void)[] = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  add(entry: PasteHistoryEntry) {
+    this.entries.unshift(entry);
+    this.setLimit(this.limit);
+  }
+
+  setLimit(limit: number) {
+    this.limit = Math.max(0, limit);
+    this.entries = this.entries.slice(0, this.limit);
+    this.notify();
+  }
+
+  clear() {
+    this.entries = [];
+    this.notify();
+  }
+
+  /** Restores entries saved as JSON, dropping malformed ones. */
+  load(data: unknown) {
+    this.entries = (Array.isArray(data) ? data : [])
+      .map(toEntry)
+      .filter((entry): entry is PasteHistoryEntry => entry !== null)
+      .slice(0, this.limit);
+    this.notify();
+  }
+
+  /** Calls the listener after every change, returns a function removing it again. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    };
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
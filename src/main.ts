@@ -7,16 +7,62 @@
 	Version 0.3.0
 */
 
-import { Plugin } from "obsidian";
-import type { App, PluginManifest } from "obsidian";
+import { Plugin, debounce, parseYaml, stringifyYaml } from "obsidian";
+import type { App, PluginManifest, TFile } from "obsidian";
+import { CLEARURLS_RULE_SET_ID, convertClearUrls } from "./clearurls.ts";
+import { registerCommands, updateRuleSetCommands } from "./commands.ts";
 import { onPaste } from "./events.ts";
-import { RemovalRule } from "./rule.ts";
-import { DEFAULT_SETTINGS, type PasteCleanerSettings } from "./settings.ts";
+import { PasteHistory } from "./history.ts";
+import { migrateSettings } from "./migrations.ts";
+import { PRESETS } from "./presets.ts";
+import { BUILTIN_REDIRECTS } from "./redirects.ts";
+import {
+  createRuleFile,
+  mergeRuleSets,
+  readRuleFile,
+  type RuleFileContents,
+  type RuleFileFormat,
+  type RuleImportMode,
+  type RuleImportResult,
+} from "./ruleFile.ts";
+import { RULES_BLOCK_LANGUAGE, createRulesNote, findRulesBlock } from "./rulesNote.ts";
+import {
+  RedirectRule,
+  compileRule,
+  validateRule,
+  type CompiledRule,
+  type RuleError,
+  type RulesReport,
+} from "./rule.ts";
+import {
+  DEFAULT_SETTINGS,
+  type PasteCleanerSettings,
+  type RuleConfig,
+  type RuleSet,
+} from "./settings.ts";
+import { addRuleStats } from "./stats.ts";
+import { PASTE_HISTORY_VIEW_TYPE, PasteHistoryView } from "./ui/pasteHistoryView.ts";
+import { SCAN_REPORT_VIEW_TYPE, ScanReportView } from "./ui/scanReportView.ts";
 import { PasteCleanerSettingsTab } from "./ui/settingsTab.ts";
 
+// Statistics change with every paste and every cleaned note, they are saved at most this often
+const RULE_STATS_SAVE_DELAY = 5000;
+
 export default class PasteCleaner extends Plugin {
   settings: PasteCleanerSettings = DEFAULT_SETTINGS;
-  rules: RemovalRule[] = [];
+  rules: CompiledRule[] = [];
+  /** Rule sets read from the rules note, null while no note is set or none could be read yet */
+  noteRuleSets: RuleSet[] | null = null;
+  /** Why the rules note could not be read, and the rules it skips */
+  rulesNoteProblems: string[] = [];
+  /** Compile errors of the rules in the rule sets, keyed by rule id */
+  ruleErrors = new Map<string, RuleError>();
+  /** Ids of the "Paste with rule set" commands, rebuilt whenever the rules change */
+  ruleSetCommandIds: string[] = [];
+  history = new PasteHistory(DEFAULT_SETTINGS.pasteHistoryLimit);
+  settingsTab: PasteCleanerSettingsTab | null = null;
+  /** Saves the settings once the statistics stop changing for a moment */
+  private saveRuleStats = debounce(() => void this.saveSettings(), RULE_STATS_SAVE_DELAY, true);
 
   constructor(app: App, manifest: PluginManifest) {
     super(app, manifest);
@@ -24,51 +70,340 @@ export default class PasteCleaner extends Plugin {
 
   override async onload() {
     await this.loadSettings();
+    this.history.setLimit(this.settings.pasteHistoryLimit);
+    await this.loadHistory();
 
     // This adds a settings tab so the user can configure various aspects of the plugin
-    this.addSettingTab(new PasteCleanerSettingsTab(this.app, this));
+    this.settingsTab = new PasteCleanerSettingsTab(this.app, this);
+    this.addSettingTab(this.settingsTab);
+
+    this.registerView(SCAN_REPORT_VIEW_TYPE, (leaf) => new ScanReportView(leaf, this));
+    this.registerView(PASTE_HISTORY_VIEW_TYPE, (leaf) => new PasteHistoryView(leaf, this));
 
     this.registerEvent(this.app.workspace.on("editor-paste", onPaste.bind(this)));
+    registerCommands(this);
+
+    // Vault events only matter once the vault is indexed, the rules note may not be known before
+    this.app.workspace.onLayoutReady(() => {
+      void this.loadRulesNote();
+      const { vault } = this.app;
+      const onChange = (path: string) => {
+        if (path === this.settings.rulesNotePath) {
+          void this.reloadRulesNote();
+        }
+      };
+      this.registerEvent(vault.on("modify", (file) => onChange(file.path)));
+      this.registerEvent(vault.on("create", (file) => onChange(file.path)));
+      this.registerEvent(vault.on("delete", (file) => onChange(file.path)));
+      this.registerEvent(
+        vault.on("rename", async (file, oldPath) => {
+          if (oldPath === this.settings.rulesNotePath) {
+            this.settings.rulesNotePath = file.path;
+            await this.saveSettings();
+          }
+          onChange(file.path);
+        }),
+      );
+    });
   }
 
-  override onunload() {}
+  override onunload() {
+    this.saveRuleStats.run();
+  }
 
   async loadSettings() {
-    const loaded = await this.loadData();
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loaded) as PasteCleanerSettings;
-
-    this.settings.removalRules = Array.isArray(this.settings.removalRules)
-      ? [...this.settings.removalRules]
-      : [...DEFAULT_SETTINGS.removalRules];
+    const loaded: unknown = await this.loadData();
+    this.settings = migrateSettings(loaded);
 
-    this.settings.isRegex = Array.isArray(this.settings.isRegex)
-      ? [...this.settings.isRegex]
-      : [...DEFAULT_SETTINGS.isRegex];
+    // Persist upgraded settings right away, so older formats only get migrated once
+    const storedVersion = (loaded as Partial<PasteCleanerSettings> | null)?.settingsFormatVersion;
+    if (loaded && storedVersion !== this.settings.settingsFormatVersion) {
+      await this.saveSettings();
+    }
 
     this.compileRules();
   }
 
+  /** Rule sets in use, from the rules note when one is set and could be read, from the settings otherwise */
+  get ruleSets(): RuleSet[] {
+    return this.noteRuleSets ?? this.settings.ruleSets;
+  }
+
   compileRules() {
     this.rules = [];
-    const { removalRules, isRegex } = this.settings;
-    const minIndex = Math.min(removalRules.length, isRegex.length);
-    for (let i = 0; i < minIndex; i++) {
-      const pattern = removalRules[i];
-      if (!pattern) {
+    if (this.settings.unwrapRedirects) {
+      this.rules.push(new RedirectRule([...BUILTIN_REDIRECTS, ...this.settings.redirectWrappers]));
+    }
+
+    // Presets run before user rule sets, in catalog order
+    for (const preset of PRESETS) {
+      if (this.settings.enabledPresets.includes(preset.id)) {
+        this.rules.push(...this.compileRuleList(`Preset ${preset.name}`, preset.rules));
+      }
+    }
+
+    // Check the rules of switched off sets as well, so they do not break unnoticed
+    this.ruleErrors.clear();
+    for (const ruleSet of this.ruleSets) {
+      for (const rule of ruleSet.rules) {
+        const error = rule.pattern ? validateRule(rule) : null;
+        if (error) {
+          this.ruleErrors.set(rule.id, error);
+        }
+      }
+    }
+
+    for (const ruleSet of this.ruleSets) {
+      const setLabel = ruleSet.name || "Unnamed rule set";
+      if (!ruleSet.enabled) {
         if (this.settings.debugMode) {
-          console.warn(`Paste Cleaner: Skipping empty removal rule at index ${i}.`);
+          console.debug(`Paste Cleaner: Skipping disabled rule set "${setLabel}".`);
         }
         continue;
       }
 
+      this.rules.push(...this.compileRuleList(setLabel, ruleSet.rules, ruleSet.id));
+    }
+
+    updateRuleSetCommands(this);
+  }
+
+  /** Compiles the rules of a single rule set, even when the set is switched off. */
+  compileRuleSet(id: string): CompiledRule[] {
+    const ruleSet = this.ruleSets.find((set) => set.id === id);
+    return ruleSet
+      ? this.compileRuleList(ruleSet.name || "Unnamed rule set", ruleSet.rules, ruleSet.id)
+      : [];
+  }
+
+  private compileRuleList(setLabel: string, rules: RuleConfig[], setId = ""): CompiledRule[] {
+    const compiled: CompiledRule[] = [];
+    rules.forEach((rule, i) => {
+      const label = `${setLabel} / ${rule.name || `#${i + 1}`}`;
+      if (!rule.enabled) {
+        if (this.settings.debugMode) {
+          console.debug(`Paste Cleaner: Skipping disabled rule "${label}".`);
+        }
+        return;
+      }
+      if (!rule.pattern) {
+        if (this.settings.debugMode) {
+          console.warn(`Paste Cleaner: Skipping empty removal rule "${label}".`);
+        }
+        return;
+      }
+
+      try {
+        const compiledRule = compileRule(rule);
+        compiledRule.setId = setId;
+        compiled.push(compiledRule);
+      } catch (e) {
+        if (this.settings.debugMode) {
+          console.error(`Failed to compile rule "${rule.name || rule.pattern}":`, e);
+        }
+      }
+    });
+    return compiled;
+  }
+
+  /**
+   * Converts a ClearURLs rule file and stores it as the ClearURLs rule set,
+   * replacing the rules of an earlier import. Throws on invalid files.
+   */
+  async importClearUrls(text: string): Promise<{ rules: number; skipped: number }> {
+    this.checkImportAllowed();
+    const { ruleSet, skipped } = convertClearUrls(JSON.parse(text));
+
+    const ruleSets = this.settings.ruleSets;
+    const index = ruleSets.findIndex((set) => set.id === CLEARURLS_RULE_SET_ID);
+    if (index === -1) {
+      ruleSets.push(ruleSet);
+    } else {
+      // Keep the test cases, they show what an updated rule list breaks
+      ruleSet.enabled = ruleSets[index].enabled;
+      ruleSet.tests = ruleSets[index].tests;
+      ruleSets[index] = ruleSet;
+    }
+
+    this.compileRules();
+    await this.saveSettings();
+    return { rules: ruleSet.rules.length, skipped: skipped.length };
+  }
+
+  /** Writes all rule sets, or a single one, to a new file in the root folder of the vault. */
+  async exportRules(ruleSetId: string | null, format: RuleFileFormat): Promise<TFile> {
+    const ruleSets = this.ruleSets.filter(
+      (ruleSet) => ruleSetId === null || ruleSet.id === ruleSetId,
+    );
+    const data = createRuleFile(ruleSets);
+    const text = format === "json" ? JSON.stringify(data, null, 2) : stringifyYaml(data);
+
+    const setName = ruleSetId !== null ? ruleSets[0]?.name.replace(/[\\/:*?"<>|#^[\]]/g, "") : "";
+    const baseName = setName ? `Paste cleaner rules - ${setName}` : "Paste cleaner rules";
+    return this.app.vault.create(this.getFreePath(baseName, format), text);
+  }
+
+  /** Throws while a rules note is used, imported rule sets would be stored but never applied. */
+  private checkImportAllowed() {
+    if (this.settings.rulesNotePath) {
+      throw new Error("Rules come from the rules note, add the rules to the note instead.");
+    }
+  }
+
+  /** Returns a path in the root folder of the vault that no file uses yet. */
+  private getFreePath(baseName: string, extension: string): string {
+    let path = `${baseName}.${extension}`;
+    for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+      path = `${baseName} ${i}.${extension}`;
+    }
+    return path;
+  }
+
+  /**
+   * Reads the rule sets from the rules note and recompiles the rules. When the
+   * note cannot be read, the rules of its last readable version stay in use, or
+   * the rules from the settings when there is none.
+   */
+  async loadRulesNote() {
+    const path = this.settings.rulesNotePath;
+    if (!path) {
+      this.noteRuleSets = null;
+      this.rulesNoteProblems = [];
+    } else {
       try {
-        const compiledRule = new RemovalRule(pattern, Boolean(isRegex[i]));
-        this.rules.push(compiledRule);
+        const { ruleSets, problems } = await this.readRulesNote(path);
+        this.noteRuleSets = ruleSets;
+        this.rulesNoteProblems = problems;
       } catch (e) {
+        // Shown with the rules note setting, the console gets it in debug mode only
         if (this.settings.debugMode) {
-          console.error(`Failed to compile rule "${pattern}":`, e);
+          console.error(`Paste Cleaner: Failed to read the rules note "${path}":`, e);
         }
+        this.rulesNoteProblems = [e instanceof Error ? e.message : String(e)];
+      }
+    }
+    this.compileRules();
+  }
+
+  private async readRulesNote(path: string): Promise<RuleFileContents> {
+    const file = this.app.vault.getFileByPath(path);
+    if (!file) {
+      throw new Error(`The note "${path}" does not exist.`);
+    }
+    const block = findRulesBlock(await this.app.vault.read(file));
+    if (block === null) {
+      throw new Error(`The note "${path}" has no ${RULES_BLOCK_LANGUAGE} code block.`);
+    }
+    return readRuleFile(parseYaml(block));
+  }
+
+  /** Reloads the rules note after it changed, and shows the new rules in an open settings tab. */
+  private async reloadRulesNote() {
+    await this.loadRulesNote();
+    if (this.settingsTab?.containerEl.isConnected) {
+      this.settingsTab.display();
+    }
+  }
+
+  /** Writes the rule sets from the settings to a new rules note and starts using it. */
+  async createRulesNoteFile(): Promise<TFile> {
+    const text = createRulesNote(stringifyYaml(createRuleFile(this.settings.ruleSets)));
+    const file = await this.app.vault.create(this.getFreePath("Paste cleaner rules", "md"), text);
+    this.settings.rulesNotePath = file.path;
+    await this.saveSettings();
+    await this.loadRulesNote();
+    return file;
+  }
+
+  /** Merges imported rule sets into the settings or replaces them, then recompiles. */
+  async importRules(ruleSets: RuleSet[], mode: RuleImportMode): Promise<RuleImportResult> {
+    this.checkImportAllowed();
+    const result = mergeRuleSets(this.settings.ruleSets, ruleSets, mode);
+    this.settings.ruleSets = result.ruleSets;
+    this.compileRules();
+    await this.saveSettings();
+    return result;
+  }
+
+  /** Opens the scan report, reusing an open one. */
+  async openScanReport(): Promise<ScanReportView | null> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(SCAN_REPORT_VIEW_TYPE)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({ type: SCAN_REPORT_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+    return leaf.view instanceof ScanReportView ? leaf.view : null;
+  }
+
+  /** Opens the paste history in the right sidebar, reusing an open one. */
+  async openPasteHistory() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(PASTE_HISTORY_VIEW_TYPE)[0];
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf("tab");
+      await leaf.setViewState({ type: PASTE_HISTORY_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  /** Adds a paste to the history when it is enabled. */
+  recordPaste(original: string, report: RulesReport) {
+    if (!this.settings.keepPasteHistory) {
+      return;
+    }
+
+    this.history.add({
+      time: Date.now(),
+      notePath: this.app.workspace.getActiveFile()?.path ?? "",
+      original,
+      cleaned: report.result,
+      rules: report.changes.map(({ rule, matches }) => ({ label: rule.label, matches })),
+    });
+    void this.saveHistory();
+  }
+
+  /** Counts the matches of the rules that changed a text in the usage statistics. */
+  recordRuleStats(report: RulesReport) {
+    if (report.changes.length === 0) {
+      return;
+    }
+
+    addRuleStats(this.settings.ruleStats, report.changes, Date.now());
+    this.saveRuleStats();
+  }
+
+  private get historyPath(): string {
+    return `${this.manifest.dir ?? ""}/history.json`;
+  }
+
+  private async loadHistory() {
+    if (!this.settings.persistPasteHistory) {
+      return;
+    }
+
+    try {
+      const adapter = this.app.vault.adapter;
+      if (await adapter.exists(this.historyPath)) {
+        this.history.load(JSON.parse(await adapter.read(this.historyPath)));
+      }
+    } catch (e) {
+      console.error("Paste Cleaner: Failed to load the paste history:", e);
+    }
+  }
+
+  /** Writes the history to history.json, or removes the file when it is not persisted. */
+  async saveHistory() {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (this.settings.persistPasteHistory) {
+        await adapter.write(this.historyPath, JSON.stringify(this.history.entries));
+      } else if (await adapter.exists(this.historyPath)) {
+        await adapter.remove(this.historyPath);
       }
+    } catch (e) {
+      console.error("Paste Cleaner: Failed to save the paste history:", e);
     }
   }
 
@@ -0,0 +1,284 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_FORMAT_VERSION,
+  createRule,
+  createRuleSet,
+  createTestCase,
+  type PasteCleanerSettings,
+  type RedirectWrapper,
+  type RuleConfig,
+  type RuleMode,
+  type RuleSet,
+  type RuleStats,
+  type RuleTestCase,
+} from "./settings.ts";
+
+type StoredSettings = Record<string, unknown>;
+
+/** Whether a parsed JSON or YAML value is an object with keys, rather than a list or a scalar. */
+export function isRecord(value: unknown): value is StoredSettings {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.map((v) => (typeof v === "string" ? v : "")) : undefined;
+}
+
+function stringOr(value: unknown, fallback: string): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+/**
+ * Migrations keyed by the format version they upgrade from. Each one only
+ * knows its own input format and hands over the next version, so stored
+ * settings of any age walk through the chain one step at a time.
+ */
+const MIGRATIONS: Record<number, (data: StoredSettings) => StoredSettings> = {
+  // Version 1 is the format of the early draft based on obsidian-paste-transform:
+  // regex patterns with parallel replacement strings.
+  1: ({ patterns, replacers, ...rest }) => {
+    const removalRules = stringArray(patterns);
+    const replacements = stringArray(replacers) ?? [];
+    return {
+      ...rest,
+      removalRules,
+      isRegex: removalRules?.map(() => true),
+      replacements: removalRules?.map((_, i) => replacements[i] ?? ""),
+      settingsFormatVersion: 2,
+    };
+  },
+
+  // Version 2 stores rules as parallel arrays. Only removalRules and isRegex were
+  // always present, replacements and flags got added later without a version bump.
+  2: ({ removalRules, isRegex, replacements, flags, ...rest }) => {
+    const patterns = stringArray(removalRules);
+    const regexFlags = Array.isArray(isRegex) ? isRegex : [];
+    const replacementList = stringArray(replacements) ?? [];
+    const flagList = stringArray(flags) ?? [];
+
+    const rules = patterns?.map(
+      (pattern, i): RuleConfig =>
+        createRule({
+          pattern,
+          mode: regexFlags[i] ? "regex" : "literal",
+          // Rules without a matching isRegex entry were silently ignored before,
+          // keep them around but disabled so behavior does not change
+          enabled: i < regexFlags.length,
+          flags: flagList[i] ?? "",
+          replacement: replacementList[i] ?? "",
+        }),
+    );
+
+    return { ...rest, rules, settingsFormatVersion: 3 };
+  },
+
+  // Version 3 has a single flat list of rule objects, which becomes the first rule set
+  3: ({ rules, ...rest }) => ({
+    ...rest,
+    ruleSets: Array.isArray(rules)
+      ? [createRuleSet({ id: "default", name: "Default", rules: rules as RuleConfig[] })]
+      : undefined,
+    settingsFormatVersion: 4,
+  }),
+};
+
+/** Guesses the format version for stored settings that predate the version field. */
+function detectFormatVersion(data: StoredSettings): number {
+  if (typeof data.settingsFormatVersion === "number") {
+    return data.settingsFormatVersion;
+  }
+  if (Array.isArray(data.removalRules)) {
+    return 2;
+  }
+  if (Array.isArray(data.patterns)) {
+    return 1;
+  }
+  return SETTINGS_FORMAT_VERSION;
+}
+
+export function isRuleMode(value: unknown): value is RuleMode {
+  return (
+    value === "literal" ||
+    value === "regex" ||
+    value === "query" ||
+    value === "redirect" ||
+    value === "filter"
+  );
+}
+
+function normalizeRule(value: unknown): RuleConfig | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const defaults = createRule();
+  return {
+    id: stringOr(value.id, defaults.id) || defaults.id,
+    name: stringOr(value.name, defaults.name),
+    description: stringOr(value.description, defaults.description),
+    pattern: stringOr(value.pattern, defaults.pattern),
+    mode: isRuleMode(value.mode) ? value.mode : "literal",
+    enabled: typeof value.enabled === "boolean" ? value.enabled : defaults.enabled,
+    flags: stringOr(value.flags, defaults.flags),
+    replacement: stringOr(value.replacement, defaults.replacement),
+    domains: (stringArray(value.domains) ?? defaults.domains).filter((domain) => domain !== ""),
+    urlPattern: stringOr(value.urlPattern, defaults.urlPattern),
+    urlExceptions: (stringArray(value.urlExceptions) ?? defaults.urlExceptions).filter(
+      (exception) => exception !== "",
+    ),
+  };
+}
+
+function normalizeRules(value: unknown): RuleConfig[] {
+  return Array.isArray(value)
+    ? value.map(normalizeRule).filter((rule): rule is RuleConfig => rule !== null)
+    : [];
+}
+
+function normalizeTestCases(value: unknown): RuleTestCase[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter(isRecord).map((testCase) => {
+    const defaults = createTestCase();
+    return {
+      id: stringOr(testCase.id, defaults.id) || defaults.id,
+      name: stringOr(testCase.name, defaults.name),
+      input: stringOr(testCase.input, defaults.input),
+      expected: stringOr(testCase.expected, defaults.expected),
+    };
+  });
+}
+
+export function normalizeRuleSet(value: unknown): RuleSet | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const defaults = createRuleSet();
+  return {
+    id: stringOr(value.id, defaults.id) || defaults.id,
+    name: stringOr(value.name, defaults.name),
+    enabled: typeof value.enabled === "boolean" ? value.enabled : defaults.enabled,
+    collapsed: typeof value.collapsed === "boolean" ? value.collapsed : defaults.collapsed,
+    pasteChoice:
+      value.pasteChoice === "cleaned" || value.pasteChoice === "original"
+        ? value.pasteChoice
+        : defaults.pasteChoice,
+    rules: normalizeRules(value.rules),
+    tests: normalizeTestCases(value.tests),
+  };
+}
+
+function normalizeRedirectWrapper(value: unknown): RedirectWrapper | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const wrapper: RedirectWrapper = {
+    host: stringOr(value.host, ""),
+    param: stringOr(value.param, ""),
+  };
+  if (typeof value.path === "string") {
+    wrapper.path = value.path;
+  }
+  return wrapper;
+}
+
+/** Keeps the statistics of rules that have a match count, with defaults for the other fields. */
+function normalizeRuleStats(value: unknown): Record<string, RuleStats> {
+  const ruleStats: Record<string, RuleStats> = {};
+  if (!isRecord(value)) {
+    return ruleStats;
+  }
+
+  for (const id of Object.keys(value)) {
+    const stats = value[id];
+    if (isRecord(stats) && typeof stats.matches === "number") {
+      ruleStats[id] = {
+        matches: stats.matches,
+        removed: typeof stats.removed === "number" ? stats.removed : 0,
+        lastMatched: typeof stats.lastMatched === "number" ? stats.lastMatched : 0,
+      };
+    }
+  }
+  return ruleStats;
+}
+
+/** Fills in missing or malformed fields of current format settings with defaults. */
+function normalizeSettings(data: StoredSettings): PasteCleanerSettings {
+  // Normalizing the default sets copies them down to the arrays, so edits never reach the defaults
+  const ruleSets = (Array.isArray(data.ruleSets) ? data.ruleSets : DEFAULT_SETTINGS.ruleSets)
+    .map(normalizeRuleSet)
+    .filter((set): set is RuleSet => set !== null);
+
+  const redirectWrappers = Array.isArray(data.redirectWrappers)
+    ? data.redirectWrappers
+        .map(normalizeRedirectWrapper)
+        .filter((wrapper): wrapper is RedirectWrapper => wrapper !== null)
+    : [];
+
+  return {
+    ruleSets,
+    rulesNotePath: stringOr(data.rulesNotePath, DEFAULT_SETTINGS.rulesNotePath),
+    enabledPresets: stringArray(data.enabledPresets) ?? [],
+    unwrapRedirects:
+      typeof data.unwrapRedirects === "boolean"
+        ? data.unwrapRedirects
+        : DEFAULT_SETTINGS.unwrapRedirects,
+    redirectWrappers,
+    cleanHtml: typeof data.cleanHtml === "boolean" ? data.cleanHtml : DEFAULT_SETTINGS.cleanHtml,
+    confirmPastes:
+      typeof data.confirmPastes === "boolean" ? data.confirmPastes : DEFAULT_SETTINGS.confirmPastes,
+    showPasteNotice:
+      typeof data.showPasteNotice === "boolean"
+        ? data.showPasteNotice
+        : DEFAULT_SETTINGS.showPasteNotice,
+    keepPasteHistory:
+      typeof data.keepPasteHistory === "boolean"
+        ? data.keepPasteHistory
+        : DEFAULT_SETTINGS.keepPasteHistory,
+    pasteHistoryLimit:
+      typeof data.pasteHistoryLimit === "number" && data.pasteHistoryLimit > 0
+        ? Math.floor(data.pasteHistoryLimit)
+        : DEFAULT_SETTINGS.pasteHistoryLimit,
+    persistPasteHistory:
+      typeof data.persistPasteHistory === "boolean"
+        ? data.persistPasteHistory
+        : DEFAULT_SETTINGS.persistPasteHistory,
+    ruleStats: normalizeRuleStats(data.ruleStats),
+    settingsFormatVersion: SETTINGS_FORMAT_VERSION,
+    debugMode: typeof data.debugMode === "boolean" ? data.debugMode : DEFAULT_SETTINGS.debugMode,
+  };
+}
+
+/**
+ * Upgrades settings loaded from data.json, in any format this plugin ever
+ * stored, to the current format. Missing data yields the default settings.
+ */
+export function migrateSettings(loaded: unknown): PasteCleanerSettings {
+  if (!isRecord(loaded)) {
+    return normalizeSettings({});
+  }
+
+  let data = loaded;
+  let version = detectFormatVersion(data);
+  while (version < SETTINGS_FORMAT_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration for settings format version ${version}.`);
+    }
+    data = migration(data);
+    version = detectFormatVersion(data);
+  }
+
+  return normalizeSettings(data);
+}
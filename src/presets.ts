@@ -0,0 +1,198 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { createRule, type RuleConfig } from "./settings.ts";
+
+/**
+ * A curated rule pack shipped with the plugin. Presets are never copied into
+ * the settings, only their ids are stored when enabled, so plugin updates can
+ * refresh them. Bump the version whenever the rules of a preset change.
+ */
+interface Preset {
+  id: string;
+  name: string;
+  description: string;
+  version: number;
+  rules: RuleConfig[];
+}
+
+export const PRESETS: Preset[] = [
+  {
+    id: "tracking",
+    name: "Tracking parameters",
+    description:
+      "UTM parameters and ad click ids of Google, Microsoft, Meta, Mailchimp and others.",
+    version: 1,
+    rules: [
+      createRule({
+        id: "preset-tracking-utm",
+        name: "UTM parameters",
+        pattern: "utm_*",
+        mode: "query",
+        flags: "i",
+      }),
+      createRule({
+        id: "preset-tracking-click-ids",
+        name: "Ad click ids",
+        pattern:
+          "fbclid gclid gclsrc dclid gbraid wbraid msclkid yclid twclid ttclid li_fat_id rb_clickid s_cid",
+        mode: "query",
+      }),
+      createRule({
+        id: "preset-tracking-mail",
+        name: "Newsletter tracking",
+        pattern: "mc_cid mc_eid _hsenc _hsmi mkt_tok oly_anon_id oly_enc_id vero_id vero_conv",
+        mode: "query",
+      }),
+      createRule({
+        id: "preset-tracking-analytics",
+        name: "Analytics linkers",
+        pattern: "_ga _gl",
+        mode: "query",
+      }),
+    ],
+  },
+  {
+    id: "amazon",
+    name: "Amazon",
+    description: "Referral paths and search tracking in Amazon product links.",
+    version: 1,
+    rules: [
+      createRule({
+        id: "preset-amazon-ref-path",
+        name: "Referral path",
+        pattern: "/ref=[^/?#]*",
+        mode: "regex",
+        domains: ["*.amazon.*"],
+      }),
+      createRule({
+        id: "preset-amazon-params",
+        name: "Tracking parameters",
+        pattern:
+          "ref ref_ pf_rd_* pd_rd_* qid sr crid sprefix content-id _encoding linkCode linkId tag camp creative creativeASIN ascsubtag dib dib_tag social_share starsLeft skipTwisterOG",
+        mode: "query",
+        domains: ["*.amazon.*"],
+      }),
+    ],
+  },
+  {
+    id: "youtube",
+    name: "YouTube",
+    description: "Share tracking (si=) and feature markers in YouTube links, timestamps are kept.",
+    version: 1,
+    rules: [
+      createRule({
+        id: "preset-youtube-share",
+        name: "Share tracking",
+        pattern: "si feature pp",
+        mode: "query",
+        domains: ["*.youtube.com", "youtu.be"],
+      }),
+    ],
+  },
+  {
+    id: "spotify",
+    name: "Spotify",
+    description: "Share tracking (si=) and context parameters in Spotify links.",
+    version: 1,
+    rules: [
+      createRule({
+        id: "preset-spotify-share",
+        name: "Share tracking",
+        pattern: "si nd context _branch_match_id _branch_referrer",
+        mode: "query",
+        domains: ["*.spotify.com", "spotify.link"],
+      }),
+    ],
+  },
+  {
+    id: "instagram",
+    name: "Instagram",
+    description: "Share tracking (igsh=) in Instagram links.",
+    version: 1,
+    rules: [
+      createRule({
+        id: "preset-instagram-share",
+        name: "Share tracking",
+        pattern: "igsh igshid img_index",
+        mode: "query",
+        domains: ["*.instagram.com"],
+      }),
+    ],
+  },
+  {
+    id: "ai-citations",
+    name: "AI chatbot citations",
+    description:
+      "Source markers of ChatGPT and other chatbots that are left behind when copying answers.",
+    version: 1,
+    rules: [
+      // Only the values chatbots set, utm_source of newsletters and campaigns is left alone
+      createRule({
+        id: "preset-ai-citations-utm-source",
+        name: "Chatbot source parameters",
+        pattern:
+          "$removeparam=/^utm_source=(?:chatgpt\\.com|openai|perplexity(?:\\.ai)?|copilot\\.com|gemini|claude\\.ai)$/i",
+        mode: "filter",
+      }),
+      createRule({
+        id: "preset-ai-citations-content-reference",
+        name: "ChatGPT content references",
+        pattern: "\\s?:contentReference\\[oaicite:\\d+\\]\\{index=\\d+\\}",
+        mode: "regex",
+      }),
+      createRule({
+        id: "preset-ai-citations-brackets",
+        name: "ChatGPT source brackets",
+        pattern: "【\\d+(?::\\d+)?†[^】]*】",
+        mode: "regex",
+      }),
+      createRule({
+        id: "preset-ai-citations-private-use",
+        name: "ChatGPT inline citations",
+        pattern: "\\uE200cite[^\\uE201]*\\uE201",
+        mode: "regex",
+      }),
+    ],
+  },
+  {
+    id: "office",
+    name: "Microsoft Office artifacts",
+    description:
+      "Invisible characters, non-breaking spaces and symbol font bullets from Word and Outlook.",
+    version: 1,
+    rules: [
+      createRule({
+        id: "preset-office-nbsp",
+        name: "Non-breaking spaces",
+        pattern: "\\u00A0",
+        mode: "regex",
+        replacement: " ",
+      }),
+      createRule({
+        id: "preset-office-invisible",
+        name: "Invisible characters",
+        pattern: "[\\u00AD\\u200B\\uFEFF]",
+        mode: "regex",
+      }),
+      createRule({
+        id: "preset-office-bullets",
+        name: "Symbol font bullets",
+        pattern: "^[ \\t]*[\\uF0B7\\uF0A7\\u00B7•][ \\t]+",
+        mode: "regex",
+        flags: "m",
+        replacement: "- ",
+      }),
+      createRule({
+        id: "preset-office-carriage-returns",
+        name: "Carriage returns",
+        pattern: "\\r(?=\\n)",
+        mode: "regex",
+      }),
+    ],
+  },
+];
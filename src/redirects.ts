@@ -0,0 +1,84 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import type { RedirectWrapper } from "./settings.ts";
+import { getPath, getQueryParam, parseDomainMatcher } from "./url.ts";
+
+/** Well-known redirect wrappers that carry the real target in a query parameter. */
+export const BUILTIN_REDIRECTS: RedirectWrapper[] = [
+  { host: "*.google.*", path: "/url", param: "q" },
+  { host: "*.google.*", path: "/url", param: "url" },
+  { host: "*.safelinks.protection.outlook.com", param: "url" },
+  { host: "l.facebook.com", path: "/l.php", param: "u" },
+  { host: "lm.facebook.com", path: "/l.php", param: "u" },
+  { host: "l.messenger.com", path: "/l.php", param: "u" },
+  { host: "l.instagram.com", param: "u" },
+  { host: "slack-redir.net", path: "/link", param: "url" },
+  { host: "*.linkedin.com", path: "/redir/redirect", param: "url" },
+  { host: "*.linkedin.com", path: "/safety/go", param: "url" },
+  { host: "*.youtube.com", path: "/redirect", param: "q" },
+  { host: "out.reddit.com", param: "url" },
+  { host: "steamcommunity.com", path: "/linkfilter/", param: "url" },
+];
+
+// Wrappers wrapping wrappers exist (Safe Links around Google results), but not endlessly
+const MAX_DEPTH = 5;
+
+export interface RedirectMatcher {
+  inScope: (url: string) => boolean;
+  path: string;
+  param: string;
+}
+
+export function compileRedirects(wrappers: RedirectWrapper[]): RedirectMatcher[] {
+  return wrappers
+    .filter((wrapper) => wrapper.host.trim().length > 0 && wrapper.param.trim().length > 0)
+    .map((wrapper) => ({
+      inScope: parseDomainMatcher([wrapper.host]),
+      path: wrapper.path ?? "",
+      param: wrapper.param.trim(),
+    }));
+}
+
+/**
+ * Whether a URL path starts with the wrapper path as whole segments, so "/url"
+ * matches "/url" and "/url/x" but not "/urlshortener". An empty prefix matches any path.
+ */
+function matchesPath(path: string, prefix: string): boolean {
+  return (
+    prefix === "" ||
+    path === prefix ||
+    (path.indexOf(prefix) === 0 && (prefix.endsWith("/") || path.charAt(prefix.length) === "/"))
+  );
+}
+
+function findTarget(url: string, matchers: RedirectMatcher[]): string | null {
+  for (const matcher of matchers) {
+    if (!matcher.inScope(url) || !matchesPath(getPath(url), matcher.path)) {
+      continue;
+    }
+
+    const target = getQueryParam(url, matcher.param);
+    if (target !== null && /^https?:\/\/[^\s]+$/i.test(target)) {
+      return target;
+    }
+  }
+  return null;
+}
+
+/** Follows redirect wrappers to the URL they point to, returns other URLs unchanged. */
+export function unwrapUrl(url: string, matchers: RedirectMatcher[]): string {
+  let current = url;
+  for (let depth = 0; depth < MAX_DEPTH; depth++) {
+    const target = findTarget(current, matchers);
+    if (target === null) {
+      break;
+    }
+    current = target;
+  }
+  return current;
+}
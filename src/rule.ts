@@ -5,12 +5,175 @@
 	Licensed under the MIT license, see LICENSE file for details.
 */
 
-export class RemovalRule {
+import { parseRemoveParamFilters } from "./filters.ts";
+import { compileRedirects, unwrapUrl, type RedirectMatcher } from "./redirects.ts";
+import type { RedirectWrapper, RuleConfig } from "./settings.ts";
+import {
+  findUrls,
+  parseDomainMatcher,
+  parseParamMatcher,
+  removeQueryParams,
+  replaceUrls,
+} from "./url.ts";
+
+interface RuleFlag {
+  flag: string;
+  name: string;
+  literal: boolean;
+}
+
+/** Flags a rule can opt into, "g" is always added when compiling. */
+export const RULE_FLAGS: RuleFlag[] = [
+  { flag: "i", name: "Ignore case", literal: true },
+  { flag: "m", name: "Multiline, ^ and $ match at line breaks", literal: false },
+  { flag: "s", name: "Dot matches line breaks", literal: false },
+  { flag: "u", name: "Unicode", literal: false },
+];
+
+/**
+ * Reduces a flag string to the supported flags in canonical order,
+ * dropping duplicates and flags that have no effect on literal rules.
+ */
+export function normalizeFlags(flags: string | null | undefined, isRegex: boolean): string {
+  if (!flags) {
+    return "";
+  }
+
+  return RULE_FLAGS.filter((f) => (isRegex || f.literal) && flags.indexOf(f.flag) !== -1)
+    .map((f) => f.flag)
+    .join("");
+}
+
+/** Text after applying a rule, and how many matches (or URLs) it changed. */
+interface RuleResult {
+  text: string;
+  matches: number;
+}
+
+/** A match of a rule, with its position in the text the rule was applied to. */
+interface RuleMatch {
+  index: number;
+  text: string;
+}
+
+/** Replaces URLs in the text with the callback result, counting the URLs that changed. */
+function cleanUrls(text: string, clean: (url: string) => string): RuleResult {
+  let matches = 0;
+  const result = replaceUrls(text, (url) => {
+    const cleaned = clean(url);
+    if (cleaned !== url) {
+      matches++;
+    }
+    return cleaned;
+  });
+  return { text: result, matches };
+}
+
+/**
+ * Common part of all rule types. Rules with domains, a URL pattern or URL
+ * exceptions only apply inside URLs in scope, text outside those URLs is never
+ * touched.
+ */
+abstract class ScopedRule {
+  id: string;
+  name: string;
+  original: string;
+  flags = "";
+  domains: string[];
+  /** Rule set the rule was compiled from, empty for presets */
+  setId = "";
+  private inScope: ((url: string) => boolean) | null;
+
+  constructor(config: RuleConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.original = config.pattern;
+    this.domains = (config.domains ?? []).filter((domain) => domain.trim().length > 0);
+
+    const hostInScope = this.domains.length > 0 ? parseDomainMatcher(this.domains) : null;
+    const urlPattern = config.urlPattern ? new RegExp(config.urlPattern, "i") : null;
+    const exceptions = (config.urlExceptions ?? []).map((exception) => new RegExp(exception, "i"));
+    this.inScope =
+      hostInScope || urlPattern || exceptions.length > 0
+        ? (url) =>
+            (!hostInScope || hostInScope(url)) &&
+            (!urlPattern || urlPattern.test(url)) &&
+            !exceptions.some((exception) => exception.test(url))
+        : null;
+  }
+
+  /** Name for messages, falls back to the pattern for unnamed rules. */
+  get label(): string {
+    return this.name || this.original;
+  }
+
+  /** Applies the rule, counting the matches (or URLs) it changed. */
+  run(source: string): RuleResult {
+    const inScope = this.inScope;
+    if (!inScope) {
+      return this.applyTo(source);
+    }
+
+    let matches = 0;
+    const text = replaceUrls(source, (url) => {
+      if (!inScope(url)) {
+        return url;
+      }
+      const result = this.applyTo(url);
+      matches += result.matches;
+      return result.text;
+    });
+    return { text, matches };
+  }
+
+  /** Finds the matches of the rule without changing the text. */
+  findMatches(source: string): RuleMatch[] {
+    const inScope = this.inScope;
+    if (!inScope) {
+      return this.findIn(source);
+    }
+
+    const matches: RuleMatch[] = [];
+    for (const { url, index } of findUrls(source)) {
+      if (inScope(url)) {
+        for (const match of this.findIn(url)) {
+          matches.push({ index: index + match.index, text: match.text });
+        }
+      }
+    }
+    return matches;
+  }
+
+  /** Applies the rule to the whole text, or to a single URL for scoped rules. */
+  protected abstract applyTo(text: string): RuleResult;
+
+  /** Finds matches in the whole text, or in a single URL for scoped rules. */
+  protected abstract findIn(text: string): RuleMatch[];
+}
+
+/** Rules that rewrite whole URLs, every URL they change counts as one match. */
+abstract class UrlRule extends ScopedRule {
+  protected applyTo(text: string): RuleResult {
+    return cleanUrls(text, (url) => this.cleanUrl(url));
+  }
+
+  protected findIn(text: string): RuleMatch[] {
+    return findUrls(text)
+      .filter(({ url }) => this.cleanUrl(url) !== url)
+      .map(({ url, index }) => ({ index, text: url }));
+  }
+
+  protected abstract cleanUrl(url: string): string;
+}
+
+export class RemovalRule extends ScopedRule {
   pattern: RegExp;
   isRegex: boolean;
-  original: string;
+  replacement: string;
 
-  constructor(pattern: string, isRegex: boolean) {
+  constructor(config: RuleConfig) {
+    super(config);
+    const { pattern } = config;
     if (pattern === undefined || pattern === null) {
       throw new Error("Pattern must be provided.");
     }
@@ -18,32 +181,344 @@ export class RemovalRule {
       throw new Error("Pattern cannot be empty.");
     }
 
-    this.original = pattern;
-    this.isRegex = isRegex;
-    if (isRegex) {
+    this.isRegex = config.mode === "regex";
+    this.flags = normalizeFlags(config.flags, this.isRegex);
+    if (this.isRegex) {
       // Ensure the regex has the global flag for multiple replacements
-      this.pattern = new RegExp(pattern, "g");
+      this.pattern = new RegExp(pattern, "g" + this.flags);
     } else {
       // For literal strings, escape special regex characters and make it global
       const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-      this.pattern = new RegExp(escaped, "g");
+      this.pattern = new RegExp(escaped, "g" + this.flags);
     }
+
+    // Regex rules may use back-references like $1 or $<name> in the replacement,
+    // literal rules insert the replacement verbatim, so "$" has to be escaped
+    const replacement = config.replacement ?? "";
+    this.replacement = this.isRegex ? replacement : replacement.replace(/\$/g, "$$$$");
+  }
+
+  protected applyTo(text: string): RuleResult {
+    // Reset the regex lastIndex to ensure it matches from the beginning
+    this.pattern.lastIndex = 0;
+    const matches = text.match(this.pattern)?.length ?? 0;
+    return { text: matches > 0 ? text.replace(this.pattern, this.replacement) : text, matches };
+  }
+
+  protected findIn(text: string): RuleMatch[] {
+    const matches: RuleMatch[] = [];
+    this.pattern.lastIndex = 0;
+    for (let match = this.pattern.exec(text); match; match = this.pattern.exec(text)) {
+      if (match[0] === "") {
+        // Step over empty matches, they would repeat forever
+        this.pattern.lastIndex++;
+        continue;
+      }
+      matches.push({ index: match.index, text: match[0] });
+    }
+    this.pattern.lastIndex = 0;
+    return matches;
+  }
+}
+
+/**
+ * Removes query parameters by name from every URL in the text and rebuilds the
+ * URLs, so no dangling "?" or "&" is left behind. The pattern is a list of
+ * names, prefixes (utm_*) or regular expressions (/^mc_/), see parseParamMatcher().
+ */
+export class QueryParamRule extends UrlRule {
+  private shouldRemove: (name: string) => boolean;
+
+  constructor(config: RuleConfig) {
+    super(config);
+    if (!config.pattern) {
+      throw new Error("Parameter list cannot be empty.");
+    }
+
+    this.flags = normalizeFlags(config.flags, false);
+    this.shouldRemove = parseParamMatcher(config.pattern, this.flags.indexOf("i") !== -1);
+  }
+
+  protected cleanUrl(url: string): string {
+    return removeQueryParams(url, this.shouldRemove);
   }
 }
 
-export function applyRules(source: string | null | undefined, rules: RemovalRule[]): string {
+/**
+ * Removes query parameters with uBlock Origin / AdGuard "$removeparam" filters,
+ * so existing filter lists can be used as they are.
+ */
+export class FilterListRule extends UrlRule {
+  private cleanFiltered: (url: string) => string;
+
+  constructor(config: RuleConfig) {
+    super(config);
+    this.flags = "";
+    this.cleanFiltered = parseRemoveParamFilters(config.pattern);
+  }
+
+  protected cleanUrl(url: string): string {
+    return this.cleanFiltered(url);
+  }
+}
+
+/**
+ * Replaces URLs matching a regular expression with the URL-encoded target
+ * captured by its first group, e.g. "^https?://example\.com/out\?to=([^&]+)".
+ */
+export class RedirectPatternRule extends UrlRule {
+  private pattern: RegExp;
+
+  constructor(config: RuleConfig) {
+    super(config);
+    if (!config.pattern) {
+      throw new Error("Pattern cannot be empty.");
+    }
+
+    this.flags = normalizeFlags(config.flags, true);
+    this.pattern = new RegExp(config.pattern, this.flags);
+  }
+
+  protected cleanUrl(url: string): string {
+    const match = this.pattern.exec(url);
+    const target = match?.[1] ? decodeTarget(match[1]) : null;
+    return target !== null && /^https?:\/\/[^\s]+$/i.test(target) ? target : url;
+  }
+}
+
+function decodeTarget(target: string): string | null {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replaces redirect wrapper links (Google results, Outlook Safe Links, ...) with
+ * the URL they point to. Runs before all other rules, so those can clean the
+ * unwrapped URL.
+ */
+export class RedirectRule {
+  id = "redirects";
+  name = "Redirect links";
+  original = "";
+  flags = "";
+  setId = "";
+  private matchers: RedirectMatcher[];
+
+  constructor(wrappers: RedirectWrapper[]) {
+    this.matchers = compileRedirects(wrappers);
+  }
+
+  get label(): string {
+    return this.name;
+  }
+
+  run(source: string): RuleResult {
+    return cleanUrls(source, (url) => unwrapUrl(url, this.matchers));
+  }
+
+  findMatches(source: string): RuleMatch[] {
+    return findUrls(source)
+      .filter(({ url }) => unwrapUrl(url, this.matchers) !== url)
+      .map(({ url, index }) => ({ index, text: url }));
+  }
+}
+
+export type CompiledRule =
+  | RemovalRule
+  | QueryParamRule
+  | FilterListRule
+  | RedirectPatternRule
+  | RedirectRule;
+
+/** Compiles a rule from the settings, throws when the pattern is invalid. */
+export function compileRule(config: RuleConfig): CompiledRule {
+  switch (config.mode) {
+    case "query":
+      return new QueryParamRule(config);
+    case "redirect":
+      return new RedirectPatternRule(config);
+    case "filter":
+      return new FilterListRule(config);
+    default:
+      return new RemovalRule(config);
+  }
+}
+
+/** Why a rule failed to compile, column is 1-based and points into the pattern. */
+export interface RuleError {
+  message: string;
+  column?: number;
+}
+
+// Quantifier braces like {2} or {1,3}, other braces are literal characters
+const BRACE_QUANTIFIER = /^\{\d+(?:,\d*)?\}/;
+
+/**
+ * Guesses where a regular expression breaks, the RegExp constructor does not
+ * say. Finds unbalanced brackets, a trailing backslash and quantifiers without
+ * anything to repeat, returns the 0-based index of the offending character or
+ * -1 for other problems.
+ */
+function findRegexErrorIndex(pattern: string): number {
+  const groups: number[] = [];
+  let classStart = -1;
+  let canRepeat = false;
+  let canBeLazy = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      if (i === pattern.length - 1) {
+        return i;
+      }
+      i++;
+      if (classStart === -1) {
+        canRepeat = true;
+        canBeLazy = false;
+      }
+      continue;
+    }
+    if (classStart !== -1) {
+      if (c === "]") {
+        classStart = -1;
+      }
+      continue;
+    }
+
+    const quantifier = c === "{" ? BRACE_QUANTIFIER.exec(pattern.slice(i)) : null;
+    if (c === "*" || c === "+" || c === "?" || quantifier) {
+      if (c === "?" && canBeLazy) {
+        canBeLazy = false;
+        continue;
+      }
+      if (!canRepeat) {
+        return i;
+      }
+      i += quantifier ? quantifier[0].length - 1 : 0;
+      canRepeat = false;
+      canBeLazy = true;
+      continue;
+    }
+
+    canBeLazy = false;
+    switch (c) {
+      case "[":
+        classStart = i;
+        canRepeat = true;
+        break;
+      case "(":
+        groups.push(i);
+        canRepeat = false;
+        // Skip the group syntax, (?:, (?=, (?!, (?<=, (?<! and (?<name>
+        if (pattern[i + 1] !== "?") {
+          break;
+        } else if (pattern[i + 2] !== "<") {
+          i += 2;
+        } else if (pattern[i + 3] === "=" || pattern[i + 3] === "!") {
+          i += 3;
+        } else {
+          i = Math.max(i + 2, pattern.indexOf(">", i));
+        }
+        break;
+      case ")":
+        if (groups.length === 0) {
+          return i;
+        }
+        groups.pop();
+        canRepeat = true;
+        break;
+      case "|":
+      case "^":
+      case "$":
+        canRepeat = false;
+        break;
+      default:
+        canRepeat = true;
+    }
+  }
+
+  if (classStart !== -1) {
+    return classStart;
+  }
+  return groups.length > 0 ? groups[groups.length - 1] : -1;
+}
+
+/**
+ * Compiles the rule to see whether it works, returns the error otherwise. The
+ * column is only known for broken regular expressions in the pattern itself.
+ */
+export function validateRule(config: RuleConfig): RuleError | null {
+  try {
+    compileRule(config);
+    return null;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    const isRegex = config.mode === "regex" || config.mode === "redirect";
+    const index =
+      isRegex && message.indexOf(`/${config.pattern}/`) !== -1
+        ? findRegexErrorIndex(config.pattern)
+        : -1;
+    return index !== -1 ? { message, column: index + 1 } : { message };
+  }
+}
+
+/**
+ * Applies the rules in order. The callback is called for every rule that
+ * changed the text, with the number of matches (or URLs) it changed.
+ */
+export function applyRules(
+  source: string | null | undefined,
+  rules: CompiledRule[],
+  onChange?: (rule: CompiledRule, before: string, after: string, matches: number) => void,
+): string {
   if (source === undefined || source === null) {
     return "";
   }
 
   let result = source;
 
-  // Apply all rules, removing all occurrences of each pattern
+  // Apply all rules, replacing all occurrences of each pattern (removal by default)
   for (const rule of rules) {
-    // Reset the regex lastIndex to ensure it matches from the beginning
-    rule.pattern.lastIndex = 0;
-    result = result.replace(rule.pattern, "");
+    const before = result;
+    const { text, matches } = rule.run(result);
+    result = text;
+    if (onChange && result !== before) {
+      onChange(rule, before, result, matches);
+    }
   }
 
   return result;
 }
+
+/** What a single rule changed, removed counts the characters the text got shorter by. */
+export interface RuleChange {
+  rule: CompiledRule;
+  matches: number;
+  removed: number;
+}
+
+/** Outcome of applying rules to a text, with the rules that changed it. */
+export interface RulesReport {
+  result: string;
+  matches: number;
+  changes: RuleChange[];
+}
+
+/**
+ * Applies the rules like applyRules(), reporting the matches and removed
+ * characters of every rule that changed the text.
+ */
+export function runRules(source: string, rules: CompiledRule[]): RulesReport {
+  const changes: RuleChange[] = [];
+  const result = applyRules(source, rules, (rule, before, after, matches) => {
+    changes.push({ rule, matches, removed: Math.max(0, before.length - after.length) });
+  });
+  return {
+    result,
+    matches: changes.reduce((total, change) => total + change.matches, 0),
+    changes,
+  };
+}
@@ -0,0 +1,261 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { isRecord, isRuleMode, normalizeRuleSet } from "./migrations.ts";
+import { validateRule } from "./rule.ts";
+import { createRuleId, type RuleConfig, type RuleSet } from "./settings.ts";
+
+/** Key marking exported rule files, its value is the version of the file format. */
+const RULE_FILE_KEY = "pasteCleanerRules";
+const RULE_FILE_VERSION = 1;
+
+export type RuleFileFormat = "json" | "yaml";
+
+/** "merge" adds new rules to the rule sets with the same id or name, "replace" replaces all rule sets. */
+export type RuleImportMode = "merge" | "replace";
+
+export interface RuleFileContents {
+  ruleSets: RuleSet[];
+  /** Rules and rule sets that were skipped, and why */
+  problems: string[];
+}
+
+export interface RuleImportResult {
+  ruleSets: RuleSet[];
+  added: number;
+  duplicates: number;
+}
+
+/** Leaves out fields with default values, so exported rules are short to read and edit. */
+function compactRule(rule: RuleConfig): Record<string, unknown> {
+  const compact: Record<string, unknown> = { id: rule.id };
+  if (rule.name) {
+    compact.name = rule.name;
+  }
+  if (rule.description) {
+    compact.description = rule.description;
+  }
+  compact.mode = rule.mode;
+  compact.pattern = rule.pattern;
+  if (!rule.enabled) {
+    compact.enabled = false;
+  }
+  if (rule.flags) {
+    compact.flags = rule.flags;
+  }
+  if (rule.replacement) {
+    compact.replacement = rule.replacement;
+  }
+  if (rule.domains.length > 0) {
+    compact.domains = rule.domains;
+  }
+  if (rule.urlPattern) {
+    compact.urlPattern = rule.urlPattern;
+  }
+  if (rule.urlExceptions.length > 0) {
+    compact.urlExceptions = rule.urlExceptions;
+  }
+  return compact;
+}
+
+/**
+ * Builds the data of a rule file. Settings that only matter in one vault, like
+ * collapsed sets or remembered paste choices, are left out.
+ */
+export function createRuleFile(ruleSets: RuleSet[]): Record<string, unknown> {
+  return {
+    [RULE_FILE_KEY]: RULE_FILE_VERSION,
+    ruleSets: ruleSets.map((ruleSet) => ({
+      id: ruleSet.id,
+      name: ruleSet.name,
+      enabled: ruleSet.enabled,
+      rules: ruleSet.rules.map(compactRule),
+      ...(ruleSet.tests.length > 0
+        ? {
+            tests: ruleSet.tests.map(({ name, input, expected }) => ({ name, input, expected })),
+          }
+        : {}),
+    })),
+  };
+}
+
+/** Short hash of a text, the same text always gives the same hash. */
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 33) ^ text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Returns the id of a rule set or rule from a file. Entries without one get an
+ * id derived from their content, so reading the same file again gives the same
+ * ids and statistics and "Paste with rule set" commands keep working.
+ */
+function readId(value: Record<string, unknown>, derived: string, usedIds: Set<string>): string {
+  let id = typeof value.id === "string" && value.id ? value.id : derived;
+  for (let i = 2; usedIds.has(id); i++) {
+    id = `${derived}-${i}`;
+  }
+  usedIds.add(id);
+  return id;
+}
+
+/** Returns why a rule from a file cannot be imported, null when it looks fine. */
+function checkRule(value: unknown): string | null {
+  if (!isRecord(value)) {
+    return "is not a rule";
+  }
+  if (typeof value.pattern !== "string" || value.pattern === "") {
+    return "has no pattern";
+  }
+  if (value.mode !== undefined && !isRuleMode(value.mode)) {
+    return `has an unknown type "${String(value.mode)}"`;
+  }
+  return null;
+}
+
+/**
+ * Reads the rule sets of parsed JSON or YAML rule file data. Rules without a
+ * pattern, of unknown type or failing to compile are skipped and listed as
+ * problems. Throws when the data is no rule file at all.
+ */
+export function readRuleFile(data: unknown): RuleFileContents {
+  if (!isRecord(data) || !Array.isArray(data.ruleSets)) {
+    throw new Error("No rule sets found, the ruleSets list is missing.");
+  }
+  const version = data[RULE_FILE_KEY];
+  if (typeof version === "number" && version > RULE_FILE_VERSION) {
+    throw new Error(`Rule file format version ${version} is not supported, update the plugin.`);
+  }
+
+  const ruleSets: RuleSet[] = [];
+  const problems: string[] = [];
+  const usedIds = new Set<string>();
+  data.ruleSets.forEach((value: unknown, setIndex) => {
+    if (!isRecord(value)) {
+      problems.push(`Rule set ${setIndex + 1} is not a rule set.`);
+      return;
+    }
+    const setLabel = typeof value.name === "string" && value.name ? value.name : `#${setIndex + 1}`;
+    if (!Array.isArray(value.rules)) {
+      problems.push(`Rule set "${setLabel}" has no rules list.`);
+    }
+
+    const setId = readId(value, `set-${hashText(setLabel)}`, usedIds);
+    const rules = (Array.isArray(value.rules) ? value.rules : [])
+      .filter((rule: unknown, ruleIndex) => {
+        const problem = checkRule(rule);
+        if (problem) {
+          problems.push(`Rule ${ruleIndex + 1} of "${setLabel}" ${problem}.`);
+        }
+        return problem === null;
+      })
+      .map((rule: Record<string, unknown>) => ({
+        ...rule,
+        id: readId(rule, `${setId}-${hashText(JSON.stringify(rule))}`, usedIds),
+      }));
+    const ruleSet = normalizeRuleSet({ ...value, id: setId, rules });
+    if (!ruleSet) {
+      return;
+    }
+
+    ruleSet.rules = ruleSet.rules.filter((rule) => {
+      const error = validateRule(rule);
+      if (error) {
+        problems.push(`Rule "${rule.name || rule.pattern}" of "${setLabel}": ${error.message}`);
+      }
+      return error === null;
+    });
+    ruleSets.push(ruleSet);
+  });
+
+  return { ruleSets, problems };
+}
+
+/** Rules doing the same thing count as duplicates, whatever their id or name. */
+function ruleKey(rule: RuleConfig): string {
+  return JSON.stringify([
+    rule.mode,
+    rule.pattern,
+    rule.flags,
+    rule.replacement,
+    rule.domains,
+    rule.urlPattern,
+    rule.urlExceptions,
+  ]);
+}
+
+/**
+ * Combines imported rule sets with the existing ones. Merging adds the rules
+ * and test cases of an imported set to the existing set with the same id, or
+ * else the same name, skipping duplicates. Sets without a match are appended.
+ * Rule ids that are taken already get replaced.
+ */
+export function mergeRuleSets(
+  existing: RuleSet[],
+  imported: RuleSet[],
+  mode: RuleImportMode,
+): RuleImportResult {
+  const countRules = (ruleSets: RuleSet[]) =>
+    ruleSets.reduce((sum, ruleSet) => sum + ruleSet.rules.length, 0);
+  if (mode === "replace") {
+    return { ruleSets: imported, added: countRules(imported), duplicates: 0 };
+  }
+
+  const ruleSets = existing.map((ruleSet) => ({
+    ...ruleSet,
+    rules: [...ruleSet.rules],
+    tests: [...ruleSet.tests],
+  }));
+  const ruleIds = new Set<string>();
+  for (const ruleSet of ruleSets) {
+    ruleSet.rules.forEach((rule) => ruleIds.add(rule.id));
+  }
+  const withFreeId = (rule: RuleConfig) => {
+    const free = ruleIds.has(rule.id) ? { ...rule, id: createRuleId() } : rule;
+    ruleIds.add(free.id);
+    return free;
+  };
+
+  let added = 0;
+  let duplicates = 0;
+  for (const importedSet of imported) {
+    const name = importedSet.name.trim().toLowerCase();
+    const target =
+      ruleSets.find((ruleSet) => ruleSet.id === importedSet.id) ??
+      ruleSets.find((ruleSet) => name !== "" && ruleSet.name.trim().toLowerCase() === name);
+    if (!target) {
+      ruleSets.push({ ...importedSet, rules: importedSet.rules.map(withFreeId) });
+      added += importedSet.rules.length;
+      continue;
+    }
+
+    const keys = new Set(target.rules.map(ruleKey));
+    for (const rule of importedSet.rules) {
+      if (keys.has(ruleKey(rule))) {
+        duplicates++;
+        continue;
+      }
+      keys.add(ruleKey(rule));
+      target.rules.push(withFreeId(rule));
+      added++;
+    }
+
+    for (const testCase of importedSet.tests) {
+      const known = target.tests.some(
+        (other) => other.input === testCase.input && other.expected === testCase.expected,
+      );
+      if (!known) {
+        target.tests.push(testCase);
+      }
+    }
+  }
+
+  return { ruleSets, added, duplicates };
+}
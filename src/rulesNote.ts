@@ -0,0 +1,53 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+/** Language of the fenced code block holding the rules in a rules note */
+export const RULES_BLOCK_LANGUAGE = "paste-cleaner";
+
+// Opening fence of at least three backticks or tildes, as in CommonMark
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+
+/**
+ * Returns the content of the first paste-cleaner code block of a note, null
+ * when the note has none. A block left open runs to the end of the note.
+ */
+export function findRulesBlock(text: string): string | null {
+  const lines = text.split(/\r?\n/);
+  for (let start = 0; start < lines.length; start++) {
+    const fence = FENCE_PATTERN.exec(lines[start]);
+    if (!fence) {
+      continue;
+    }
+
+    // Closing fence of the same character, at least as long as the opening one
+    const marker = fence[1];
+    let end = start + 1;
+    while (
+      end < lines.length &&
+      !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[end])
+    ) {
+      end++;
+    }
+    if (fence[2].toLowerCase() === RULES_BLOCK_LANGUAGE) {
+      return lines.slice(start + 1, end).join("\n");
+    }
+    start = end;
+  }
+  return null;
+}
+
+/** Builds a new rules note around the YAML of a rule file. */
+export function createRulesNote(yaml: string): string {
+  return [
+    "Rules of the Paste Cleaner plugin. Edit the code block below, the plugin reloads the rules when this note is saved.",
+    "",
+    "```" + RULES_BLOCK_LANGUAGE,
+    yaml.replace(/\n$/, ""),
+    "```",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,66 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import type { CompiledRule } from "./rule.ts";
+
+/** A rule match located by line and column (both zero-based, like the editor). */
+export interface ScanMatch {
+  line: number;
+  ch: number;
+  text: string;
+  lineText: string;
+}
+
+export interface RuleScan {
+  rule: CompiledRule;
+  matches: ScanMatch[];
+}
+
+/** Returns the index of the last line starting at or before the position. */
+function findLine(lineStarts: number[], index: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= index) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Finds the matches of every rule in a note, grouped by rule. Each rule is
+ * checked against the unchanged text, so the positions point into the note.
+ * Rules without matches are left out.
+ */
+export function scanText(text: string, rules: CompiledRule[]): RuleScan[] {
+  const lines = text.split("\n");
+  const lineStarts: number[] = [];
+  let start = 0;
+  for (const line of lines) {
+    lineStarts.push(start);
+    start += line.length + 1;
+  }
+
+  return rules
+    .map((rule) => ({
+      rule,
+      matches: rule.findMatches(text).map((match): ScanMatch => {
+        const line = findLine(lineStarts, match.index);
+        return {
+          line,
+          ch: match.index - lineStarts[line],
+          text: match.text,
+          lineText: lines[line],
+        };
+      }),
+    }))
+    .filter((scan) => scan.matches.length > 0);
+}
@@ -5,19 +5,202 @@
 	Licensed under the MIT license, see LICENSE file for details.
 */
 
+/**
+ * literal text, regular expression, query parameter names to strip from URLs,
+ * a regular expression for redirect URLs with the target in group 1, or
+ * adblock-style $removeparam filters
+ */
+export type RuleMode = "literal" | "regex" | "query" | "redirect" | "filter";
+
+export interface RuleConfig {
+  id: string;
+  name: string;
+  description: string;
+  pattern: string;
+  mode: RuleMode;
+  enabled: boolean;
+  flags: string;
+  replacement: string;
+  /** Host patterns like "*.example.com", the rule only applies inside matching URLs when set */
+  domains: string[];
+  /** Regular expression the whole URL has to match, the rule only applies inside matching URLs when set */
+  urlPattern: string;
+  /** Regular expressions for URLs the rule must not touch */
+  urlExceptions: string[];
+}
+
+/** An example input with the output the rules of a set are expected to produce. */
+export interface RuleTestCase {
+  id: string;
+  name: string;
+  input: string;
+  expected: string;
+}
+
+/** What to insert when rules of a set change a paste in confirm mode, "ask" shows the diff. */
+export type PasteChoice = "ask" | "cleaned" | "original";
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  enabled: boolean;
+  collapsed: boolean;
+  pasteChoice: PasteChoice;
+  rules: RuleConfig[];
+  tests: RuleTestCase[];
+}
+
+/** Lifetime counters of a rule, kept to find rules that never match. */
+export interface RuleStats {
+  matches: number;
+  /** Characters the rule removed, replacements count as the difference in length */
+  removed: number;
+  /** Milliseconds since the epoch */
+  lastMatched: number;
+}
+
+/** A redirect link whose real target is stored in a query parameter. */
+export interface RedirectWrapper {
+  host: string;
+  /** Path prefix the wrapper URL has to start with, any path when unset */
+  path?: string;
+  param: string;
+}
+
 export interface PasteCleanerSettings {
-  removalRules: string[];
-  isRegex: boolean[];
+  ruleSets: RuleSet[];
+  /** Note whose paste-cleaner code block holds the rule sets, the ones above are used when empty */
+  rulesNotePath: string;
+  /** Ids of enabled presets, the preset rules themselves ship with the plugin */
+  enabledPresets: string[];
+  unwrapRedirects: boolean;
+  redirectWrappers: RedirectWrapper[];
+  /** Run the rules on the Markdown converted from HTML clipboard content */
+  cleanHtml: boolean;
+  /** Show the changes before inserting a cleaned paste */
+  confirmPastes: boolean;
+  /** Show a notice with an undo action after a cleaned paste */
+  showPasteNotice: boolean;
+  /** Record recent pastes for the paste history view */
+  keepPasteHistory: boolean;
+  pasteHistoryLimit: number;
+  /** Keep the paste history in history.json across restarts, in memory only otherwise */
+  persistPasteHistory: boolean;
+  /** Usage statistics keyed by rule id */
+  ruleStats: Record<string, RuleStats>;
   settingsFormatVersion: number;
   debugMode: boolean;
 }
 
+/** Bump this and add a migration in migrations.ts whenever the stored format changes. */
+export const SETTINGS_FORMAT_VERSION = 4;
+
+export function createRuleId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export function createRule(values: Partial<RuleConfig> = {}): RuleConfig {
+  return {
+    id: createRuleId(),
+    name: "",
+    description: "",
+    pattern: "",
+    mode: "literal",
+    enabled: true,
+    flags: "",
+    replacement: "",
+    domains: [],
+    urlPattern: "",
+    urlExceptions: [],
+    ...values,
+  };
+}
+
+export function createRuleSet(values: Partial<RuleSet> = {}): RuleSet {
+  return {
+    id: createRuleId(),
+    name: "",
+    enabled: true,
+    collapsed: false,
+    pasteChoice: "ask",
+    rules: [],
+    tests: [],
+    ...values,
+  };
+}
+
+export function createTestCase(values: Partial<RuleTestCase> = {}): RuleTestCase {
+  return {
+    id: createRuleId(),
+    name: "",
+    input: "",
+    expected: "",
+    ...values,
+  };
+}
+
+/** Moves a rule within its set, returns false when a position is out of range. */
+export function moveRule(ruleSet: RuleSet, from: number, to: number): boolean {
+  const rules = ruleSet.rules;
+  if (from === to || from < 0 || to < 0 || from >= rules.length || to >= rules.length) {
+    return false;
+  }
+
+  const [rule] = rules.splice(from, 1);
+  rules.splice(to, 0, rule);
+  return true;
+}
+
 export const DEFAULT_SETTINGS: PasteCleanerSettings = {
-  removalRules: [
-    "?utm_source=chatgpt.com",
-    "[?&](utm_medium|utm_campaign|utm_content|fbclid|gclid)=[^&\\s]*",
+  ruleSets: [
+    {
+      id: "default",
+      name: "Tracking parameters",
+      enabled: true,
+      collapsed: false,
+      pasteChoice: "ask",
+      rules: [
+        {
+          id: "default-chatgpt-utm-source",
+          name: "ChatGPT source marker",
+          description: "",
+          pattern: "?utm_source=chatgpt.com",
+          mode: "literal",
+          enabled: true,
+          flags: "",
+          replacement: "",
+          domains: [],
+          urlPattern: "",
+          urlExceptions: [],
+        },
+        {
+          id: "default-tracking-params",
+          name: "Tracking parameters",
+          description: "",
+          pattern: "[?&](utm_medium|utm_campaign|utm_content|fbclid|gclid)=[^&\\s]*",
+          mode: "regex",
+          enabled: true,
+          flags: "",
+          replacement: "",
+          domains: [],
+          urlPattern: "",
+          urlExceptions: [],
+        },
+      ],
+      tests: [],
+    },
   ],
-  isRegex: [false, true],
-  settingsFormatVersion: 2,
+  rulesNotePath: "",
+  enabledPresets: [],
+  unwrapRedirects: true,
+  redirectWrappers: [],
+  cleanHtml: true,
+  confirmPastes: false,
+  showPasteNotice: false,
+  keepPasteHistory: false,
+  pasteHistoryLimit: 20,
+  persistPasteHistory: false,
+  ruleStats: {},
+  settingsFormatVersion: SETTINGS_FORMAT_VERSION,
   debugMode: false,
 };
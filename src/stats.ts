@@ -0,0 +1,57 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import type { RuleChange } from "./rule.ts";
+import type { RuleConfig, RuleSet, RuleStats } from "./settings.ts";
+
+/** A rule of a rule set that did not match for a while. */
+interface StaleRule {
+  ruleSet: RuleSet;
+  rule: RuleConfig;
+  /** Undefined for rules that never matched */
+  stats: RuleStats | undefined;
+}
+
+/** Adds the changes of one cleaning run to the lifetime counters of their rules. */
+export function addRuleStats(
+  ruleStats: Record<string, RuleStats>,
+  changes: RuleChange[],
+  time: number,
+) {
+  for (const { rule, matches, removed } of changes) {
+    const stats = ruleStats[rule.id] ?? { matches: 0, removed: 0, lastMatched: 0 };
+    stats.matches += matches;
+    stats.removed += removed;
+    stats.lastMatched = time;
+    ruleStats[rule.id] = stats;
+  }
+}
+
+/**
+ * Lists the enabled rules of the enabled rule sets that never matched or did not match
+ * since the given time, the ones that never matched first, then the oldest.
+ */
+export function findStaleRules(
+  ruleSets: RuleSet[],
+  ruleStats: Record<string, RuleStats>,
+  since: number,
+): StaleRule[] {
+  const stale: StaleRule[] = [];
+  for (const ruleSet of ruleSets) {
+    // Rules of disabled sets never run, so they cannot match
+    if (!ruleSet.enabled) {
+      continue;
+    }
+    for (const rule of ruleSet.rules) {
+      const stats = ruleStats[rule.id];
+      if (rule.enabled && rule.pattern.trim() !== "" && (!stats || stats.lastMatched < since)) {
+        stale.push({ ruleSet, rule, stats });
+      }
+    }
+  }
+  return stale.sort((a, b) => (a.stats?.lastMatched ?? 0) - (b.stats?.lastMatched ?? 0));
+}
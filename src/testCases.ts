@@ -0,0 +1,23 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { applyRules, type CompiledRule } from "./rule.ts";
+import type { RuleTestCase } from "./settings.ts";
+
+export interface TestCaseResult {
+  testCase: RuleTestCase;
+  actual: string;
+  passed: boolean;
+}
+
+/** Runs the input of every test case through the rules and compares the output to the expected text. */
+export function runTestCases(testCases: RuleTestCase[], rules: CompiledRule[]): TestCaseResult[] {
+  return testCases.map((testCase) => {
+    const actual = applyRules(testCase.input, rules);
+    return { testCase, actual, passed: actual === testCase.expected };
+  });
+}
@@ -0,0 +1,122 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { diffChars } from "./diff.ts";
+import { applyRules, type CompiledRule } from "./rule.ts";
+
+/** The text before and after a rule that changed it. */
+interface RuleStep {
+  rule: CompiledRule;
+  matches: number;
+  before: string;
+  after: string;
+}
+
+/** Part of the source, step is the index of the step that removed or added it, -1 for equal parts. */
+interface TraceSegment {
+  type: "equal" | "removed" | "added";
+  text: string;
+  step: number;
+}
+
+export interface RuleTrace {
+  result: string;
+  steps: RuleStep[];
+  /** The source with the changes of all steps, added text placed where it was inserted */
+  segments: TraceSegment[];
+}
+
+interface InsertedChar {
+  char: string;
+  step: number;
+  /** Index of the source character the text was inserted in front of */
+  anchor: number;
+  removed: boolean;
+}
+
+/**
+ * Applies the rules like applyRules() and records every step, then works out
+ * which rule removed each character of the source and which rule added text
+ * where. Text added by one rule and removed by a later one is left out of the
+ * segments, the steps still show it.
+ */
+export function traceRules(source: string, rules: CompiledRule[]): RuleTrace {
+  const steps: RuleStep[] = [];
+  const result = applyRules(source, rules, (rule, before, after, matches) => {
+    steps.push({ rule, matches, before, after });
+  });
+
+  // Where each character of the current text comes from, an index into the
+  // source or -1 - i for the i-th inserted character
+  let origins = source.split("").map((_, i) => i);
+  const removedBy = new Array<number>(source.length).fill(-1);
+  const inserted: InsertedChar[] = [];
+  const anchorOf = (origin: number | undefined) => {
+    if (origin === undefined) {
+      return source.length;
+    }
+    return origin >= 0 ? origin : inserted[-1 - origin].anchor;
+  };
+
+  steps.forEach(({ before, after }, step) => {
+    const next: number[] = [];
+    let position = 0;
+    for (const segment of diffChars(before, after)) {
+      const end = position + segment.text.length;
+      if (segment.type === "equal") {
+        for (; position < end; position++) {
+          next.push(origins[position]);
+        }
+      } else if (segment.type === "removed") {
+        for (; position < end; position++) {
+          const origin = origins[position];
+          if (origin >= 0) {
+            removedBy[origin] = step;
+          } else {
+            inserted[-1 - origin].removed = true;
+          }
+        }
+      } else {
+        const anchor = anchorOf(origins[position]);
+        for (const char of segment.text.split("")) {
+          inserted.push({ char, step, anchor, removed: false });
+          next.push(-inserted.length);
+        }
+      }
+    }
+    origins = next;
+  });
+
+  const insertedAt = new Map<number, InsertedChar[]>();
+  for (const char of inserted) {
+    if (!char.removed) {
+      const chars = insertedAt.get(char.anchor) ?? [];
+      chars.push(char);
+      insertedAt.set(char.anchor, chars);
+    }
+  }
+
+  const segments: TraceSegment[] = [];
+  const append = (type: TraceSegment["type"], text: string, step: number) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type && last.step === step) {
+      last.text += text;
+    } else {
+      segments.push({ type, text, step });
+    }
+  };
+  for (let i = 0; i <= source.length; i++) {
+    for (const char of insertedAt.get(i) ?? []) {
+      append("added", char.char, char.step);
+    }
+    if (i < source.length) {
+      append(removedBy[i] === -1 ? "equal" : "removed", source[i], removedBy[i]);
+    }
+  }
+
+  return { result, steps, segments };
+}
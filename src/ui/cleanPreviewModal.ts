@@ -0,0 +1,70 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { Modal, Setting } from "obsidian";
+import type { App, TFile } from "obsidian";
+import type { CompiledRule } from "../rule.ts";
+
+/** A note the rules would change, with the matches of every rule. */
+export interface CleanPreviewItem {
+  file: TFile;
+  matches: number;
+  changes: { rule: CompiledRule; matches: number }[];
+}
+
+/** Lists the notes the rules would change before anything is written. */
+export class CleanPreviewModal extends Modal {
+  private items: CleanPreviewItem[];
+  private onConfirm: () => void;
+
+  constructor(app: App, items: CleanPreviewItem[], onConfirm: () => void) {
+    super(app);
+    this.items = items;
+    this.onConfirm = onConfirm;
+  }
+
+  override onOpen() {
+    const { contentEl } = this;
+    const total = this.items.reduce((sum, item) => sum + item.matches, 0);
+    const notes = this.items.length === 1 ? "1 note" : `${this.items.length} notes`;
+
+    this.setTitle("Clean notes");
+    contentEl.createEl("p", { text: `${total} matches in ${notes} will be cleaned.` });
+
+    const listEl = contentEl.createEl("ul", { cls: "paste-cleaner-preview-list" });
+    for (const item of this.items) {
+      const itemEl = listEl.createEl("li");
+      itemEl.createSpan({ text: item.file.path });
+      itemEl.createSpan({
+        text: ` (${item.matches})`,
+        cls: "paste-cleaner-preview-count",
+      });
+      itemEl.createDiv({
+        text: item.changes.map((change) => `${change.rule.label}: ${change.matches}`).join(", "),
+        cls: "paste-cleaner-preview-rules",
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) => {
+        button.setButtonText("Cancel").onClick(() => this.close());
+      })
+      .addButton((button) => {
+        button
+          .setButtonText(`Clean ${notes}`)
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm();
+          });
+      });
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,80 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { Modal, Setting } from "obsidian";
+import type { App } from "obsidian";
+import type { RuleFileFormat } from "../ruleFile.ts";
+import type { RuleSet } from "../settings.ts";
+
+const FORMAT_NAMES: Record<RuleFileFormat, string> = {
+  yaml: "YAML",
+  json: "JSON",
+};
+
+/** Asks which rule sets to export and in which format. */
+export class ExportRulesModal extends Modal {
+  private ruleSets: RuleSet[];
+  private onExport: (ruleSetId: string | null, format: RuleFileFormat) => void;
+  private ruleSetId: string | null = null;
+  private format: RuleFileFormat = "yaml";
+
+  constructor(
+    app: App,
+    ruleSets: RuleSet[],
+    onExport: (ruleSetId: string | null, format: RuleFileFormat) => void,
+  ) {
+    super(app);
+    this.ruleSets = ruleSets;
+    this.onExport = onExport;
+  }
+
+  override onOpen() {
+    const { contentEl } = this;
+
+    this.setTitle("Export rules");
+    contentEl.createEl("p", {
+      text: "Writes the rules to a new file in the root folder of the vault, to share them with other vaults.",
+    });
+
+    new Setting(contentEl).setName("Rule sets").addDropdown((dropdown) => {
+      dropdown.addOption("", "All rule sets");
+      for (const ruleSet of this.ruleSets) {
+        dropdown.addOption(ruleSet.id, ruleSet.name || "Unnamed rule set");
+      }
+      dropdown.onChange((value) => {
+        this.ruleSetId = value || null;
+      });
+    });
+
+    new Setting(contentEl).setName("Format").addDropdown((dropdown) => {
+      dropdown
+        .addOptions(FORMAT_NAMES)
+        .setValue(this.format)
+        .onChange((value) => {
+          this.format = value as RuleFileFormat;
+        });
+    });
+
+    new Setting(contentEl)
+      .addButton((button) => {
+        button.setButtonText("Cancel").onClick(() => this.close());
+      })
+      .addButton((button) => {
+        button
+          .setButtonText("Export")
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onExport(this.ruleSetId, this.format);
+          });
+      });
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,93 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { Modal, Setting } from "obsidian";
+import type { App } from "obsidian";
+import type { RuleFileContents, RuleImportMode } from "../ruleFile.ts";
+
+/** Shows what a rule file contains and what was skipped, then lets the user merge or replace. */
+export class ImportRulesModal extends Modal {
+  private fileName: string;
+  private contents: RuleFileContents;
+  private onImport: (mode: RuleImportMode) => void;
+
+  constructor(
+    app: App,
+    fileName: string,
+    contents: RuleFileContents,
+    onImport: (mode: RuleImportMode) => void,
+  ) {
+    super(app);
+    this.fileName = fileName;
+    this.contents = contents;
+    this.onImport = onImport;
+  }
+
+  override onOpen() {
+    const { contentEl } = this;
+    const { ruleSets, problems } = this.contents;
+    const rules = ruleSets.reduce((sum, ruleSet) => sum + ruleSet.rules.length, 0);
+
+    this.setTitle("Import rules");
+    contentEl.createEl("p", {
+      text: `${this.fileName} contains ${rules} rules in ${ruleSets.length} rule sets.`,
+    });
+
+    const listEl = contentEl.createEl("ul", { cls: "paste-cleaner-preview-list" });
+    for (const ruleSet of ruleSets) {
+      const itemEl = listEl.createEl("li");
+      itemEl.createSpan({ text: ruleSet.name || "Unnamed rule set" });
+      itemEl.createSpan({ text: ` (${ruleSet.rules.length})`, cls: "paste-cleaner-preview-count" });
+    }
+
+    if (problems.length > 0) {
+      contentEl.createEl("p", {
+        text: `${problems.length} entries cannot be imported and will be skipped:`,
+        cls: "paste-cleaner-import-problems",
+      });
+      const problemsEl = contentEl.createEl("ul", {
+        cls: "paste-cleaner-preview-list paste-cleaner-import-problems",
+      });
+      for (const problem of problems) {
+        problemsEl.createEl("li", { text: problem });
+      }
+    }
+
+    contentEl.createEl("p", {
+      text: "Merging adds new rules to the rule set with the same id, or else the same name, and skips duplicates. Rule sets without a match are added. Replacing removes all current rule sets first.",
+      cls: "setting-item-description",
+    });
+
+    new Setting(contentEl)
+      .addButton((button) => {
+        button.setButtonText("Cancel").onClick(() => this.close());
+      })
+      .addButton((button) => {
+        button
+          .setButtonText("Replace all rule sets")
+          .setWarning()
+          .setDisabled(ruleSets.length === 0)
+          .onClick(() => this.choose("replace"));
+      })
+      .addButton((button) => {
+        button
+          .setButtonText("Merge")
+          .setCta()
+          .setDisabled(rules === 0)
+          .onClick(() => this.choose("merge"));
+      });
+  }
+
+  private choose(mode: RuleImportMode) {
+    this.close();
+    this.onImport(mode);
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,119 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { Modal, Setting } from "obsidian";
+import type { App } from "obsidian";
+import { diffText } from "../diff.ts";
+
+/** Renders the word diff of two texts, removed parts struck through and added parts marked. */
+export function renderDiff(parent: HTMLElement, before: string, after: string) {
+  const diffEl = parent.createDiv("paste-cleaner-diff");
+  for (const segment of diffText(before, after)) {
+    if (segment.type === "removed") {
+      diffEl.createEl("del", { text: segment.text, cls: "paste-cleaner-diff-removed" });
+    } else if (segment.type === "added") {
+      diffEl.createEl("ins", { text: segment.text, cls: "paste-cleaner-diff-added" });
+    } else {
+      diffEl.appendText(segment.text);
+    }
+  }
+}
+
+/**
+ * Shows what the rules changed in a paste and lets the user insert the
+ * cleaned text, the original, or an edited version of the cleaned text.
+ * Closing the modal without a choice cancels the paste.
+ */
+export class PasteDiffModal extends Modal {
+  private original: string;
+  private cleaned: string;
+  private ruleSetNames: string[];
+  private onChoose: (text: string, remember: "cleaned" | "original" | null) => void;
+  private remember = false;
+
+  constructor(
+    app: App,
+    original: string,
+    cleaned: string,
+    ruleSetNames: string[],
+    onChoose: (text: string, remember: "cleaned" | "original" | null) => void,
+  ) {
+    super(app);
+    this.original = original;
+    this.cleaned = cleaned;
+    this.ruleSetNames = ruleSetNames;
+    this.onChoose = onChoose;
+  }
+
+  override onOpen() {
+    const { contentEl } = this;
+    this.setTitle("Clean paste");
+    this.modalEl.addClass("paste-cleaner-diff-modal");
+
+    renderDiff(contentEl, this.original, this.cleaned);
+
+    const editEl = contentEl.createEl("textarea", {
+      cls: "paste-cleaner-diff-edit is-hidden",
+    });
+    editEl.value = this.cleaned;
+    editEl.rows = 8;
+
+    // Remembering only makes sense when the changes all come from the user's rule sets
+    let rememberSetting: Setting | null = null;
+    if (this.ruleSetNames.length > 0) {
+      const sets = this.ruleSetNames.map((name) => `"${name}"`).join(", ");
+      rememberSetting = new Setting(contentEl)
+        .setName(
+          `Remember for ${this.ruleSetNames.length === 1 ? "rule set" : "rule sets"} ${sets}`,
+        )
+        .setDesc(
+          "Insert the same version without asking next time. Reset it in the rule set settings.",
+        )
+        .addToggle((toggle) => {
+          toggle.setValue(this.remember).onChange((value) => {
+            this.remember = value;
+          });
+        });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) => {
+        button.setButtonText("Insert original").onClick(() => {
+          this.choose(this.original, "original");
+        });
+      })
+      .addButton((button) => {
+        button.setButtonText("Edit then insert").onClick(() => {
+          if (editEl.hasClass("is-hidden")) {
+            editEl.removeClass("is-hidden");
+            rememberSetting?.settingEl.addClass("is-hidden");
+            button.setButtonText("Insert edited");
+            editEl.focus();
+          } else {
+            this.choose(editEl.value, null);
+          }
+        });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText("Insert cleaned")
+          .setCta()
+          .onClick(() => {
+            this.choose(this.cleaned, "cleaned");
+          });
+      });
+  }
+
+  private choose(text: string, choice: "cleaned" | "original" | null) {
+    this.close();
+    this.onChoose(text, this.remember ? choice : null);
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
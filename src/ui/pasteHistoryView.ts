@@ -0,0 +1,139 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { ItemView, MarkdownView, Notice } from "obsidian";
+import type { WorkspaceLeaf } from "obsidian";
+import type { PasteHistoryEntry } from "../history.ts";
+import type PasteCleaner from "../main.ts";
+import { applyRules } from "../rule.ts";
+import { createTestCase, type RuleSet } from "../settings.ts";
+import { renderDiff } from "./pasteDiffModal.ts";
+import { RuleSetModal } from "./ruleSetModal.ts";
+
+export const PASTE_HISTORY_VIEW_TYPE = "paste-cleaner-history";
+
+/** Lists recent pastes with what the rules changed in them. */
+export class PasteHistoryView extends ItemView {
+  private plugin: PasteCleaner;
+
+  constructor(leaf: WorkspaceLeaf, plugin: PasteCleaner) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return PASTE_HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Paste history";
+  }
+
+  override getIcon(): string {
+    return "history";
+  }
+
+  override async onOpen() {
+    this.register(this.plugin.history.subscribe(() => this.render()));
+    this.render();
+  }
+
+  private render() {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass("paste-cleaner-history");
+
+    const { history, settings } = this.plugin;
+    if (!settings.keepPasteHistory) {
+      container.createEl("p", {
+        text: "The paste history is off. Turn it on in the plugin settings to record pastes.",
+        cls: "paste-cleaner-history-empty",
+      });
+    }
+
+    if (history.entries.length === 0) {
+      if (settings.keepPasteHistory) {
+        container.createEl("p", { text: "No pastes yet.", cls: "paste-cleaner-history-empty" });
+      }
+      return;
+    }
+
+    const clearButton = container.createEl("button", { text: "Clear history" });
+    clearButton.addEventListener("click", () => {
+      history.clear();
+      void this.plugin.saveHistory();
+    });
+
+    for (const entry of history.entries) {
+      this.renderEntry(container, entry);
+    }
+  }
+
+  private renderEntry(container: HTMLElement, entry: PasteHistoryEntry) {
+    const entryEl = container.createDiv("paste-cleaner-history-entry");
+    entryEl.createDiv({
+      text: `${new Date(entry.time).toLocaleString()} · ${entry.notePath || "No note"}`,
+      cls: "paste-cleaner-history-title",
+    });
+    entryEl.createDiv({
+      text:
+        entry.rules.length > 0
+          ? entry.rules.map((rule) => `${rule.label} (${rule.matches})`).join(", ")
+          : "No rule matched",
+      cls: "paste-cleaner-history-rules",
+    });
+
+    const detailsEl = entryEl.createEl("details");
+    detailsEl.createEl("summary", {
+      text: entry.original === entry.cleaned ? "Pasted text" : "Changes",
+    });
+    renderDiff(detailsEl, entry.original, entry.cleaned);
+
+    const actionsEl = entryEl.createDiv("paste-cleaner-history-actions");
+    const insertButton = actionsEl.createEl("button", { text: "Insert original" });
+    insertButton.addEventListener("click", () => this.insertOriginal(entry));
+    const testButton = actionsEl.createEl("button", { text: "Create test case" });
+    // Test cases of rules from the rules note belong in the note
+    if (this.plugin.settings.rulesNotePath) {
+      testButton.disabled = true;
+      testButton.title = "Add test cases to the rules note";
+    }
+    testButton.addEventListener("click", () => {
+      new RuleSetModal(this.app, this.plugin.settings.ruleSets, (ruleSet) => {
+        void this.createTestCase(entry, ruleSet);
+      }).open();
+    });
+  }
+
+  /** Saves the paste as a test case expecting the result of the chosen set alone. */
+  private async createTestCase(entry: PasteHistoryEntry, ruleSet: RuleSet) {
+    ruleSet.tests.push(
+      createTestCase({
+        name: `Paste of ${new Date(entry.time).toLocaleString()}`,
+        input: entry.original,
+        expected: applyRules(entry.original, this.plugin.compileRuleSet(ruleSet.id)),
+      }),
+    );
+    await this.plugin.saveSettings();
+    const settingsTab = this.plugin.settingsTab;
+    if (settingsTab?.containerEl.isConnected) {
+      settingsTab.display();
+    }
+    new Notice(`Added a test case to "${ruleSet.name || "Unnamed rule set"}".`);
+  }
+
+  /** Inserts the original paste into the note edited last, the sidebar itself has focus. */
+  private insertOriginal(entry: PasteHistoryEntry) {
+    const view = this.app.workspace.getMostRecentLeaf()?.view;
+    if (!(view instanceof MarkdownView)) {
+      new Notice("Open a note to insert the paste into.");
+      return;
+    }
+    view.editor.replaceSelection(entry.original);
+    view.editor.focus();
+  }
+}
@@ -0,0 +1,35 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { FuzzySuggestModal } from "obsidian";
+import type { App } from "obsidian";
+import type { RuleSet } from "../settings.ts";
+
+/** Lets the user pick one of the given rule sets. */
+export class RuleSetModal extends FuzzySuggestModal<RuleSet> {
+  private ruleSets: RuleSet[];
+  private onChoose: (ruleSet: RuleSet) => void;
+
+  constructor(app: App, ruleSets: RuleSet[], onChoose: (ruleSet: RuleSet) => void) {
+    super(app);
+    this.ruleSets = ruleSets;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a rule set...");
+  }
+
+  getItems(): RuleSet[] {
+    return this.ruleSets;
+  }
+
+  getItemText(ruleSet: RuleSet): string {
+    return ruleSet.name || "Unnamed rule set";
+  }
+
+  onChooseItem(ruleSet: RuleSet): void {
+    this.onChoose(ruleSet);
+  }
+}
@@ -0,0 +1,77 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { ButtonComponent, setTooltip } from "obsidian";
+import type { RuleTrace } from "../trace.ts";
+import { renderDiff } from "./pasteDiffModal.ts";
+
+// Rules are colored with this many classes in turn, see styles.css
+const RULE_COLORS = 6;
+
+function colorClass(step: number): string {
+  return `paste-cleaner-rule-color-${step % RULE_COLORS}`;
+}
+
+/**
+ * Renders the input with the changes of every rule highlighted in the color
+ * of the rule, the rules that changed it, and the result after the selected
+ * rule next to the text it got.
+ */
+export function renderRuleTrace(
+  parent: HTMLElement,
+  trace: RuleTrace,
+  selectedStep: number,
+  onSelect: (step: number) => void,
+) {
+  parent.empty();
+  if (trace.steps.length === 0) {
+    parent.createDiv({ text: "No rule changes the test input.", cls: "paste-cleaner-trace-empty" });
+    return;
+  }
+
+  const textEl = parent.createDiv("paste-cleaner-trace-text");
+  for (const segment of trace.segments) {
+    if (segment.type === "equal") {
+      textEl.appendText(segment.text);
+      continue;
+    }
+    const changeEl = textEl.createEl(segment.type === "removed" ? "del" : "ins", {
+      text: segment.text,
+      cls: colorClass(segment.step),
+    });
+    const label = trace.steps[segment.step].rule.label;
+    setTooltip(changeEl, `${segment.type === "removed" ? "Removed" : "Added"} by ${label}`);
+  }
+
+  const stepsEl = parent.createDiv("paste-cleaner-trace-steps");
+  trace.steps.forEach(({ rule, matches }, step) => {
+    const button = new ButtonComponent(stepsEl)
+      .setButtonText(`${step + 1}. ${rule.label} (${matches})`)
+      .setClass(colorClass(step))
+      .onClick(() => onSelect(step));
+    button.buttonEl.toggleClass("is-active", step === selectedStep);
+    button.buttonEl.setAttribute("aria-pressed", String(step === selectedStep));
+  });
+
+  const { rule, before, after } = trace.steps[selectedStep];
+  const stageEl = parent.createDiv("paste-cleaner-trace-stage");
+  const navEl = stageEl.createDiv("paste-cleaner-trace-nav");
+  new ButtonComponent(navEl)
+    .setIcon("arrow-left")
+    .setTooltip("Previous rule")
+    .setDisabled(selectedStep === 0)
+    .onClick(() => onSelect(selectedStep - 1));
+  navEl.createSpan({
+    text: `Result after rule ${selectedStep + 1} of ${trace.steps.length}: ${rule.label}`,
+  });
+  new ButtonComponent(navEl)
+    .setIcon("arrow-right")
+    .setTooltip("Next rule")
+    .setDisabled(selectedStep === trace.steps.length - 1)
+    .onClick(() => onSelect(selectedStep + 1));
+  renderDiff(stageEl, before, after);
+}
@@ -0,0 +1,163 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { ItemView, MarkdownView } from "obsidian";
+import type { TFile, WorkspaceLeaf } from "obsidian";
+import { cleanFiles } from "../commands.ts";
+import type PasteCleaner from "../main.ts";
+import { scanText, type RuleScan, type ScanMatch } from "../scan.ts";
+
+export const SCAN_REPORT_VIEW_TYPE = "paste-cleaner-scan-report";
+
+// Characters of context shown around a match
+const SNIPPET_CONTEXT = 40;
+
+/** Lists every match of the active rules in the vault, grouped by note and rule. */
+export class ScanReportView extends ItemView {
+  private plugin: PasteCleaner;
+  private results = new Map<TFile, RuleScan[]>();
+  private scanned = false;
+
+  constructor(leaf: WorkspaceLeaf, plugin: PasteCleaner) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return SCAN_REPORT_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Paste cleaner scan";
+  }
+
+  override getIcon(): string {
+    return "search-check";
+  }
+
+  override async onOpen() {
+    this.render();
+  }
+
+  /** Runs the active rules over every Markdown file of the vault. */
+  async scan() {
+    this.results.clear();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      await this.scanFile(file);
+    }
+    this.scanned = true;
+    this.render();
+  }
+
+  private async scanFile(file: TFile) {
+    const scans = scanText(await this.app.vault.cachedRead(file), this.plugin.rules);
+    if (scans.length > 0) {
+      this.results.set(file, scans);
+    } else {
+      this.results.delete(file);
+    }
+  }
+
+  private render() {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass("paste-cleaner-scan-report");
+
+    const headerEl = container.createDiv("paste-cleaner-scan-header");
+    const scanButton = headerEl.createEl("button", {
+      text: this.scanned ? "Scan again" : "Scan vault",
+    });
+    scanButton.addEventListener("click", () => void this.scan());
+
+    if (!this.scanned) {
+      headerEl.createSpan({ text: "Find every match of the active rules in your notes." });
+      return;
+    }
+
+    const files = Array.from(this.results.keys()).sort((a, b) => a.path.localeCompare(b.path));
+    const total = files.reduce((sum, file) => sum + countMatches(this.results.get(file)), 0);
+    headerEl.createSpan({
+      text: files.length > 0 ? `${total} matches in ${files.length} notes.` : "No matches found.",
+    });
+
+    for (const file of files) {
+      this.renderFile(container, file, this.results.get(file) ?? []);
+    }
+  }
+
+  private renderFile(container: HTMLElement, file: TFile, scans: RuleScan[]) {
+    const fileEl = container.createDiv("paste-cleaner-scan-file");
+    const titleEl = fileEl.createDiv("paste-cleaner-scan-file-title");
+    const linkEl = titleEl.createEl("a", { text: file.path });
+    linkEl.addEventListener("click", () => void this.openMatch(file, null));
+    titleEl.createSpan({ text: ` (${countMatches(scans)})`, cls: "paste-cleaner-scan-count" });
+
+    const cleanButton = titleEl.createEl("button", { text: "Clean" });
+    cleanButton.addEventListener("click", () => {
+      void cleanFiles(this.plugin, [file], async () => {
+        await this.scanFile(file);
+        this.render();
+      });
+    });
+
+    for (const { rule, matches } of scans) {
+      fileEl.createDiv({
+        text: `${rule.label} (${matches.length})`,
+        cls: "paste-cleaner-scan-rule",
+      });
+      const listEl = fileEl.createEl("ul");
+      for (const match of matches) {
+        const itemEl = listEl.createEl("li", { cls: "paste-cleaner-scan-match" });
+        itemEl.createSpan({ text: `${match.line + 1}: `, cls: "paste-cleaner-scan-line" });
+        renderSnippet(itemEl, match);
+        itemEl.addEventListener("click", () => void this.openMatch(file, match));
+      }
+    }
+  }
+
+  /** Opens the note, reusing a tab that already shows it, and selects the match. */
+  private async openMatch(file: TFile, match: ScanMatch | null) {
+    const { workspace } = this.app;
+    const leaf =
+      workspace
+        .getLeavesOfType("markdown")
+        .find((candidate) => (candidate.view as MarkdownView).file === file) ??
+      workspace.getLeaf("tab");
+    if (!(leaf.view instanceof MarkdownView) || leaf.view.file !== file) {
+      await leaf.openFile(file);
+    }
+    await workspace.revealLeaf(leaf);
+
+    const view = leaf.view;
+    if (match && view instanceof MarkdownView) {
+      const from = { line: match.line, ch: match.ch };
+      const to = { line: match.line, ch: match.ch + match.text.split("\n")[0].length };
+      view.editor.setSelection(from, to);
+      view.editor.scrollIntoView({ from, to }, true);
+      view.editor.focus();
+    }
+  }
+}
+
+function countMatches(scans: RuleScan[] | undefined): number {
+  return (scans ?? []).reduce((sum, scan) => sum + scan.matches.length, 0);
+}
+
+/** Shows the line around the match, with the match itself highlighted. */
+function renderSnippet(parent: HTMLElement, match: ScanMatch) {
+  const matchText = match.text.split("\n")[0];
+  const start = Math.max(0, match.ch - SNIPPET_CONTEXT);
+  const end = Math.min(match.lineText.length, match.ch + matchText.length + SNIPPET_CONTEXT);
+
+  const snippetEl = parent.createSpan({ cls: "paste-cleaner-scan-snippet" });
+  snippetEl.appendText((start > 0 ? "…" : "") + match.lineText.slice(start, match.ch));
+  snippetEl.createEl("mark", { text: matchText });
+  snippetEl.appendText(
+    match.lineText.slice(match.ch + matchText.length, end) +
+      (end < match.lineText.length ? "…" : ""),
+  );
+}
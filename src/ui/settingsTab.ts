@@ -5,14 +5,79 @@
 	Licensed under the MIT license, see LICENSE file for details.
 */
 
-import { PluginSettingTab, Setting } from "obsidian";
-import type { App, ButtonComponent, TextAreaComponent } from "obsidian";
+import {
+  ButtonComponent,
+  Notice,
+  PluginSettingTab,
+  Setting,
+  TextAreaComponent,
+  setIcon,
+  setTooltip,
+} from "obsidian";
+import type { App, TextComponent } from "obsidian";
+import { RULE_FILE_EXTENSIONS, exportRules, importRuleFile } from "../commands.ts";
 import type PasteCleaner from "../main.ts";
-import { applyRules } from "../rule.ts";
+import { RULE_FLAGS, applyRules, normalizeFlags } from "../rule.ts";
+import { PRESETS } from "../presets.ts";
+import { findStaleRules } from "../stats.ts";
+import { runTestCases, type TestCaseResult } from "../testCases.ts";
+import { traceRules } from "../trace.ts";
+import { VaultFileModal } from "./vaultFileModal.ts";
+import { renderDiff } from "./pasteDiffModal.ts";
+import { renderRuleTrace } from "./ruleTrace.ts";
+import {
+  createRule,
+  createRuleId,
+  createRuleSet,
+  createTestCase,
+  moveRule,
+  type PasteChoice,
+  type RuleConfig,
+  type RuleMode,
+  type RuleSet,
+  type RuleStats,
+  type RuleTestCase,
+} from "../settings.ts";
+
+const RULE_MODE_NAMES: Record<RuleMode, string> = {
+  literal: "Literal",
+  regex: "Regex",
+  query: "Query params",
+  redirect: "Redirect",
+  filter: "Filter list",
+};
+
+const PASTE_CHOICE_NAMES: Record<PasteChoice, string> = {
+  ask: "Ask",
+  cleaned: "Insert cleaned",
+  original: "Insert original",
+};
+
+// Rules without a match for this many days are listed as unused
+const STALE_RULE_DAYS = 90;
+
+const PATTERN_PLACEHOLDERS: Record<RuleMode, string> = {
+  literal: "Text to remove",
+  regex: "Pattern to remove",
+  query: "utm_*, fbclid, /^mc_/",
+  redirect: "Regex with the target URL in group 1",
+  filter: "||example.com^$removeparam=ref",
+};
 
 export class PasteCleanerSettingsTab extends PluginSettingTab {
   plugin: PasteCleaner;
   private testInputValue = "";
+  private trySource: TextAreaComponent | null = null;
+  private tryDest: TextAreaComponent | null = null;
+  private traceEl: HTMLElement | null = null;
+  /** Rule whose result the test area shows, kept while the input changes */
+  private traceStep = 0;
+  /** Refresh the parts of the display that depend on the rules, like compile errors and test cases */
+  private ruleViews: (() => void)[] = [];
+  /** Rule being dragged in the rules grid, rules can only be dropped within their own set */
+  private draggedRule: { ruleSet: RuleSet; rule: RuleConfig } | null = null;
+  /** Unused rules list expanded, kept while deleting rules from it */
+  private staleRulesShown = false;
 
   constructor(app: App, plugin: PasteCleaner) {
     super(app, plugin);
@@ -23,147 +88,57 @@ export class PasteCleanerSettingsTab extends PluginSettingTab {
     const { containerEl } = this;
 
     containerEl.empty();
-
-    let trySource: TextAreaComponent | null = null;
-    let tryDest: TextAreaComponent | null = null;
-    let addRuleButton: ButtonComponent | null = null;
+    this.trySource = null;
+    this.tryDest = null;
+    this.traceEl = null;
+    this.ruleViews = [];
 
     const plugin = this.plugin;
-    const updateAddRuleButton = () => {
-      if (!addRuleButton) {
-        return;
-      }
-
-      const rules = plugin.settings.removalRules;
-      const lastRule = rules.length > 0 ? rules[rules.length - 1] : undefined;
-      const hasEmptyTail = lastRule !== undefined && lastRule.trim().length === 0;
-
-      addRuleButton
-        .setDisabled(hasEmptyTail)
-        .setTooltip(hasEmptyTail ? "Fill the current rule before adding another" : "");
-    };
 
-    const handleChanges = () => {
-      try {
-        tryDest?.setValue(applyRules(trySource?.getValue(), plugin.rules));
-      } catch (e) {
-        tryDest?.setValue("ERROR:\n" + e);
-      }
-    };
+    this.displayPresets(containerEl);
 
-    new Setting(containerEl)
+    const ruleSetsHeading = new Setting(containerEl)
       .setHeading()
-      .setName("Removal rules")
-      .setDesc("Define patterns to remove from pasted content. Rules are applied in order.");
+      .setName("Rule sets")
+      .setDesc(
+        "Group rules by purpose and switch whole sets on or off. Rules remove matches from pasted content, or replace them when a replacement is set. Sets and the rules inside them are applied in order.",
+      );
+    const errorCountEl = ruleSetsHeading.nameEl.createSpan("paste-cleaner-error-count");
+    this.ruleViews.push(() => {
+      const count = plugin.ruleErrors.size;
+      errorCountEl.setText(count === 1 ? "1 broken rule" : `${count} broken rules`);
+      errorCountEl.toggle(count > 0);
+    });
 
-    // Create grid container for rules
-    const rulesContainer = containerEl.createDiv("paste-cleaner-rules-grid");
-
-    // Add grid header
-    rulesContainer.createEl("div", {
-      text: "Regex",
-      cls: "paste-cleaner-header",
-    });
-    rulesContainer.createEl("div", {
-      text: "Pattern",
-      cls: "paste-cleaner-header",
-    });
-    rulesContainer.createEl("div", {
-      text: "\u00A0", // Non-breaking space for delete column
-      cls: "paste-cleaner-header",
-    });
-
-    // Helper function to create a rule row
-    const createRuleSetting = (index: number) => {
-      // Column 1: Regex toggle
-      const toggleCell = rulesContainer.createDiv("paste-cleaner-cell");
-      new Setting(toggleCell).addToggle((toggle) => {
-        toggle
-          .setValue(this.plugin.settings.isRegex[index] || false)
-          .setTooltip("Enable for regex pattern, disable for literal text")
-          .onChange(async (value) => {
-            this.plugin.settings.isRegex[index] = value;
-            try {
-              this.plugin.compileRules();
-              await this.plugin.saveSettings();
-              handleChanges();
-            } catch (e) {
-              console.error("Failed to update rule type:", e);
-            }
-          });
-      });
+    this.displayRulesNote(containerEl);
 
-      // Column 2: Pattern input
-      const patternCell = rulesContainer.createDiv("paste-cleaner-cell");
-      new Setting(patternCell).addText((text) => {
-        text.inputEl.addClass("paste-cleaner-input");
-        text
-          .setPlaceholder("Text or pattern to remove")
-          .setValue(this.plugin.settings.removalRules[index] || "")
-          .onChange(async (value) => {
-            this.plugin.settings.removalRules[index] = value;
-            try {
-              this.plugin.compileRules();
-              await this.plugin.saveSettings();
-              handleChanges();
-              updateAddRuleButton();
-            } catch (e) {
-              console.error("Failed to update rule:", e);
-            }
-          });
+    if (plugin.settings.rulesNotePath) {
+      for (const ruleSet of plugin.ruleSets) {
+        this.displayNoteRuleSet(containerEl, ruleSet);
+      }
+    } else {
+      plugin.settings.ruleSets.forEach((ruleSet, index) => {
+        this.displayRuleSet(containerEl, ruleSet, index);
       });
 
-      // Column 3: Delete button
-      const deleteCell = rulesContainer.createDiv("paste-cleaner-cell");
-      new Setting(deleteCell).addExtraButton((button) => {
-        button
-          .setIcon("trash")
-          .setTooltip("Delete rule")
-          .onClick(async () => {
-            this.plugin.settings.removalRules.splice(index, 1);
-            this.plugin.settings.isRegex.splice(index, 1);
-            try {
-              this.plugin.compileRules();
-              await this.plugin.saveSettings();
-              handleChanges();
-              this.display(); // Refresh the display
-            } catch (e) {
-              console.error("Failed to delete rule:", e);
-            }
-          });
+      // Add new rule set button
+      new Setting(containerEl).addButton((button) => {
+        button.setButtonText("Add rule set").onClick(async () => {
+          plugin.settings.ruleSets.push(createRuleSet({ rules: [createRule()] }));
+          await this.applyRuleChange("Failed to add rule set:");
+          this.display(); // Refresh the display
+        });
       });
-    };
-
-    // Create rows for existing rules
-    for (let i = 0; i < plugin.settings.removalRules.length; i++) {
-      createRuleSetting(i);
     }
 
-    // Add new rule button
-    new Setting(containerEl).addButton((button) => {
-      addRuleButton = button;
-      button
-        .setButtonText("Add new rule")
-        .setCta()
-        .onClick(async () => {
-          const rules = plugin.settings.removalRules;
-          if (rules.length > 0 && rules[rules.length - 1].trim().length === 0) {
-            return;
-          }
-
-          plugin.settings.removalRules.push("");
-          plugin.settings.isRegex.push(false);
-          await plugin.saveSettings();
-          this.display(); // Refresh the display
-        });
-      updateAddRuleButton();
-    });
+    this.displayRedirects(containerEl);
+    this.displayImport(containerEl);
 
     new Setting(containerEl).setHeading().setName("Test your rules");
 
     // Test input with clear button in description
     const testInputSetting = new Setting(containerEl).setName("Test input").addTextArea((ta) => {
-      trySource = ta;
+      this.trySource = ta;
       ta.setPlaceholder("Paste test content here...");
 
       // Restore the previous test input value
@@ -177,7 +152,7 @@ export class PasteCleanerSettingsTab extends PluginSettingTab {
       ta.onChange((value) => {
         // Save the test input value so it persists across display() calls
         this.testInputValue = value;
-        handleChanges();
+        this.updateTestResult();
       });
     });
 
@@ -185,7 +160,7 @@ export class PasteCleanerSettingsTab extends PluginSettingTab {
     const descEl = testInputSetting.descEl;
     descEl.empty();
     descEl.createSpan({
-      text: "Paste or type test content here to see what gets removed.",
+      text: "Paste or type test content here to see what gets removed or replaced.",
     });
     descEl.createEl("br");
     descEl.createEl("br");
@@ -196,18 +171,18 @@ export class PasteCleanerSettingsTab extends PluginSettingTab {
     clearButton.addEventListener("click", (e: PointerEvent) => {
       e.preventDefault();
       this.testInputValue = "";
-      if (trySource) {
-        trySource.setValue("");
-        handleChanges();
+      if (this.trySource) {
+        this.trySource.setValue("");
+        this.updateTestResult();
       }
     });
 
     // Test output
     new Setting(containerEl)
       .setName("Test result")
-      .setDesc("This shows what the content looks like after applying the removal rules")
+      .setDesc("This shows what the content looks like after applying the rules")
       .addTextArea((ta) => {
-        tryDest = ta;
+        this.tryDest = ta;
         ta.setPlaceholder("Result will appear here...");
         ta.setDisabled(true);
 
@@ -215,11 +190,87 @@ export class PasteCleanerSettingsTab extends PluginSettingTab {
         ta.inputEl.rows = 6;
         ta.inputEl.cols = 50;
         ta.inputEl.addClass("paste-cleaner-test-textarea");
+      });
+
+    new Setting(containerEl)
+      .setName("Changes by rule")
+      .setDesc(
+        "The test input with the text every rule removed struck through and the text it added underlined, in the color of the rule. Hover a change to see its rule, pick a rule to see the result after it.",
+      );
+    this.traceEl = containerEl.createDiv("paste-cleaner-trace");
+
+    const testCasesSetting = new Setting(containerEl)
+      .setName("Saved test cases")
+      .addButton((button) => {
+        button.setButtonText("Run all tests").onClick(() => {
+          this.updateRuleViews();
+          const results = this.runAllTests();
+          const failing = results.filter((result) => !result.passed).length;
+          new Notice(
+            failing > 0
+              ? `${failing} of ${results.length} test cases failed.`
+              : `All ${results.length} test cases passed.`,
+          );
+        });
+      });
+    this.ruleViews.push(() => {
+      const results = this.runAllTests();
+      const failing = results.filter((result) => !result.passed).length;
+      testCasesSetting.setDesc(
+        results.length === 0
+          ? "Add test cases to a rule set to check its rules whenever they change."
+          : failing > 0
+            ? `${failing} of ${results.length} test cases fail, see the rule sets marked with failing tests.`
+            : `All ${results.length} test cases pass.`,
+      );
+    });
+
+    // Update the result after creating the result views
+    this.updateTestResult();
 
-        // Update the result after creating the textarea
-        handleChanges();
+    new Setting(containerEl)
+      .setName("Clean rich text")
+      .setDesc(
+        "Convert HTML from web pages to Markdown before applying the rules, so pasted links and formatting are kept. Turn off if you disabled auto convert HTML in the editor settings.",
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.cleanHtml);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.cleanHtml = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Confirm cleaned pastes")
+      .setDesc(
+        "Show what the rules changed before inserting a paste, and choose between the cleaned text, the original or an edited version.",
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.confirmPastes);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.confirmPastes = value;
+          await this.plugin.saveSettings();
+          this.display(); // Refresh the display
+        });
       });
 
+    new Setting(containerEl)
+      .setName("Show notice after cleaning")
+      .setDesc(
+        "Summarize what was removed from a paste, with an action to undo the cleaning and insert the original instead.",
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.showPasteNotice);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.showPasteNotice = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.displayHistory(containerEl);
+    this.displayStats(containerEl);
+
     // Debug mode toggle
     new Setting(containerEl)
       .setName("Debug mode")
@@ -232,6 +283,1090 @@ export class PasteCleanerSettingsTab extends PluginSettingTab {
         });
       });
 
-    updateAddRuleButton();
+    this.updateRuleViews();
+  }
+
+  /** Replaces the test input, e.g. with a paste from the history. */
+  private updateTestResult() {
+    try {
+      const trace = traceRules(this.trySource?.getValue() ?? "", this.plugin.rules);
+      this.tryDest?.setValue(trace.result);
+
+      const traceEl = this.traceEl;
+      if (traceEl) {
+        const render = (step: number) => {
+          this.traceStep = Math.max(0, Math.min(step, trace.steps.length - 1));
+          renderRuleTrace(traceEl, trace, this.traceStep, render);
+        };
+        render(this.traceStep);
+      }
+    } catch (e) {
+      this.tryDest?.setValue("ERROR:\n" + e);
+    }
+  }
+
+  private updateRuleViews() {
+    for (const update of this.ruleViews) {
+      update();
+    }
+  }
+
+  /** Recompiles and saves after a rule edit, then refreshes the test results and rule errors. */
+  private async applyRuleChange(errorMessage: string) {
+    try {
+      this.plugin.compileRules();
+      this.updateRuleViews();
+      await this.plugin.saveSettings();
+      this.updateTestResult();
+    } catch (e) {
+      console.error(errorMessage, e);
+    }
+  }
+
+  /** Removes a rule together with its usage statistics. */
+  private async deleteRule(ruleSet: RuleSet, rule: RuleConfig) {
+    ruleSet.rules.splice(ruleSet.rules.indexOf(rule), 1);
+    delete this.plugin.settings.ruleStats[rule.id];
+    await this.applyRuleChange("Failed to delete rule:");
+    this.display(); // Refresh the display
+  }
+
+  private displayPresets(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setHeading()
+      .setName("Presets")
+      .setDesc(
+        "Curated rules that ship with the plugin and are updated with it. Enabled presets run before your own rule sets. Copy a preset to your rule sets to customize it.",
+      );
+
+    for (const preset of PRESETS) {
+      const presetSetting = new Setting(containerEl)
+        .setName(preset.name)
+        .setDesc(`${preset.description} Version ${preset.version}.`)
+        .setClass("paste-cleaner-preset");
+
+      const rulesEl = containerEl.createEl("ul", {
+        cls: "paste-cleaner-preset-rules is-collapsed",
+      });
+      for (const rule of preset.rules) {
+        const itemEl = rulesEl.createEl("li");
+        itemEl.createSpan({ text: rule.name });
+        itemEl.createEl("code", { text: rule.pattern });
+        if (rule.domains.length > 0) {
+          itemEl.createSpan({
+            text: rule.domains.join(", "),
+            cls: "paste-cleaner-preset-domains",
+          });
+        }
+      }
+
+      presetSetting.addExtraButton((button) => {
+        button
+          .setIcon("list")
+          .setTooltip("Show rules")
+          .onClick(() => {
+            rulesEl.toggleClass("is-collapsed", !rulesEl.hasClass("is-collapsed"));
+          });
+      });
+
+      presetSetting.addExtraButton((button) => {
+        button
+          .setIcon("copy")
+          .setTooltip("Copy to my rule sets")
+          // Copies go to the rule sets stored in the settings, which are not shown while a rules note is used
+          .setDisabled(settings.rulesNotePath !== "")
+          .onClick(async () => {
+            settings.ruleSets.push(
+              createRuleSet({
+                name: preset.name,
+                rules: preset.rules.map((rule) =>
+                  createRule({ ...rule, id: createRuleId(), domains: [...rule.domains] }),
+                ),
+              }),
+            );
+            await this.applyRuleChange("Failed to copy preset:");
+            this.display(); // Refresh the display
+          });
+      });
+
+      presetSetting.addToggle((toggle) => {
+        toggle.setValue(settings.enabledPresets.includes(preset.id)).onChange(async (value) => {
+          settings.enabledPresets = settings.enabledPresets.filter((id) => id !== preset.id);
+          if (value) {
+            settings.enabledPresets.push(preset.id);
+          }
+          await this.applyRuleChange("Failed to update preset:");
+        });
+      });
+    }
+  }
+
+  private displayRedirects(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+
+    new Setting(containerEl).setHeading().setName("Redirect links");
+
+    new Setting(containerEl)
+      .setName("Unwrap redirect links")
+      .setDesc(
+        "Replace links from Google results, Outlook Safe Links, Facebook, Instagram, Slack, LinkedIn, YouTube, Reddit and Steam with the page they point to, before the rules are applied.",
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.unwrapRedirects).onChange(async (value) => {
+          settings.unwrapRedirects = value;
+          await this.applyRuleChange("Failed to update redirect setting:");
+        });
+      });
+
+    settings.redirectWrappers.forEach((wrapper, index) => {
+      new Setting(containerEl)
+        .setClass("paste-cleaner-redirect")
+        .addText((text) => {
+          text
+            .setPlaceholder("Host, e.g. *.example.com")
+            .setValue(wrapper.host)
+            .onChange(async (value) => {
+              wrapper.host = value.trim();
+              await this.applyRuleChange("Failed to update redirect link:");
+            });
+        })
+        .addText((text) => {
+          text
+            .setPlaceholder("Target parameter, e.g. url")
+            .setValue(wrapper.param)
+            .onChange(async (value) => {
+              wrapper.param = value.trim();
+              await this.applyRuleChange("Failed to update redirect link:");
+            });
+        })
+        .addExtraButton((button) => {
+          button
+            .setIcon("trash")
+            .setTooltip("Delete redirect link")
+            .onClick(async () => {
+              settings.redirectWrappers.splice(index, 1);
+              await this.applyRuleChange("Failed to delete redirect link:");
+              this.display(); // Refresh the display
+            });
+        });
+    });
+
+    new Setting(containerEl)
+      .setDesc("Add your own redirect links by host and the parameter holding the target URL.")
+      .addButton((button) => {
+        button.setButtonText("Add redirect link").onClick(async () => {
+          settings.redirectWrappers.push({ host: "", param: "" });
+          await this.plugin.saveSettings();
+          this.display(); // Refresh the display
+        });
+      });
+  }
+
+  private displayHistory(containerEl: HTMLElement) {
+    const plugin = this.plugin;
+    const settings = plugin.settings;
+
+    new Setting(containerEl).setHeading().setName("Paste history");
+
+    new Setting(containerEl)
+      .setName("Keep paste history")
+      .setDesc(
+        "Record recent pastes with the original text, the cleaned text and the rules that matched, to find out which rule changed a paste.",
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.keepPasteHistory).onChange(async (value) => {
+          settings.keepPasteHistory = value;
+          await plugin.saveSettings();
+        });
+      })
+      .addExtraButton((button) => {
+        button
+          .setIcon("history")
+          .setTooltip("Open paste history")
+          .onClick(() => plugin.openPasteHistory());
+      });
+
+    new Setting(containerEl)
+      .setName("History size")
+      .setDesc("Number of pastes to keep.")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+        text.setValue(String(settings.pasteHistoryLimit)).onChange(async (value) => {
+          const limit = Number.parseInt(value, 10);
+          if (limit > 0) {
+            settings.pasteHistoryLimit = limit;
+            plugin.history.setLimit(limit);
+            await plugin.saveSettings();
+            await plugin.saveHistory();
+          }
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Save history across restarts")
+      .setDesc(
+        "Store the history in the plugin folder. Pasted text may contain private data, the history is kept in memory only otherwise.",
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(settings.persistPasteHistory).onChange(async (value) => {
+          settings.persistPasteHistory = value;
+          await plugin.saveSettings();
+          await plugin.saveHistory();
+        });
+      });
+  }
+
+  private displayStats(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+    const allStats = Object.keys(settings.ruleStats).map((id) => settings.ruleStats[id]);
+    const matches = allStats.reduce((sum, stats) => sum + stats.matches, 0);
+    const removed = allStats.reduce((sum, stats) => sum + stats.removed, 0);
+
+    new Setting(containerEl).setHeading().setName("Rule statistics");
+
+    new Setting(containerEl)
+      .setName("Matches")
+      .setDesc(
+        allStats.length > 0
+          ? `${allStats.length} rules matched ${matches} times and removed ${removed} characters.`
+          : "No rule matched yet.",
+      )
+      .addButton((button) => {
+        button
+          .setButtonText("Reset statistics")
+          .setDisabled(allStats.length === 0)
+          .onClick(async () => {
+            settings.ruleStats = {};
+            await this.plugin.saveSettings();
+            this.display(); // Refresh the display
+          });
+      });
+
+    const since = Date.now() - STALE_RULE_DAYS * 24 * 60 * 60 * 1000;
+    const staleRules = findStaleRules(this.plugin.ruleSets, settings.ruleStats, since);
+    new Setting(containerEl)
+      .setName("Unused rules")
+      .setDesc(
+        staleRules.length > 0
+          ? `${staleRules.length} enabled rules without a match in the last ${STALE_RULE_DAYS} days. Delete the ones you no longer need.`
+          : `Every enabled rule matched in the last ${STALE_RULE_DAYS} days.`,
+      )
+      .addExtraButton((button) => {
+        button
+          .setIcon("list")
+          .setTooltip("Show rules")
+          .setDisabled(staleRules.length === 0)
+          .onClick(() => {
+            this.staleRulesShown = !this.staleRulesShown;
+            staleRulesEl.toggleClass("is-collapsed", !this.staleRulesShown);
+          });
+      });
+
+    const staleRulesEl = containerEl.createDiv({ cls: "paste-cleaner-stale-rules" });
+    staleRulesEl.toggleClass("is-collapsed", !this.staleRulesShown);
+
+    for (const { ruleSet, rule, stats } of staleRules) {
+      const staleSetting = new Setting(staleRulesEl)
+        .setName(rule.name || rule.pattern)
+        .setDesc(`${ruleSet.name || "Unnamed rule set"}: ${describeStats(stats)}`);
+      // Rules from the rules note can only be deleted in the note
+      if (!settings.rulesNotePath) {
+        staleSetting.addExtraButton((button) => {
+          button
+            .setIcon("trash")
+            .setTooltip("Delete rule")
+            .onClick(() => this.deleteRule(ruleSet, rule));
+        });
+      }
+    }
+  }
+
+  private displayImport(containerEl: HTMLElement) {
+    new Setting(containerEl).setHeading().setName("Import and export");
+
+    // Imports write to the rule sets stored in the settings, which are not used while a rules note is
+    const usesNote = this.plugin.settings.rulesNotePath !== "";
+    const noteHint = usesNote
+      ? " Not available while a rules note is used, edit the note instead."
+      : "";
+
+    // Hidden file input, opened by the button below
+    const fileInput = containerEl.createEl("input", {
+      type: "file",
+      attr: { accept: ".json,application/json" },
+      cls: "paste-cleaner-file-input",
+    });
+    fileInput.addEventListener("change", async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = "";
+      if (file) {
+        await this.importClearUrls(file.name, await file.text());
+      }
+    });
+
+    new Setting(containerEl)
+      .setName("ClearURLs rules")
+      .setDesc(
+        "Convert a local copy of the ClearURLs rule file (data.min.json) into the ClearURLs rule set. Importing again replaces the rules of the previous import." +
+          noteHint,
+      )
+      .addButton((button) => {
+        button
+          .setButtonText("From vault")
+          .setDisabled(usesNote)
+          .onClick(() => {
+            new VaultFileModal(this.app, ["json"], async (file) => {
+              await this.importClearUrls(file.path, await this.app.vault.cachedRead(file));
+            }).open();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText("Choose file")
+          .setDisabled(usesNote)
+          .onClick(() => fileInput.click());
+      });
+
+    const ruleFileInput = containerEl.createEl("input", {
+      type: "file",
+      attr: { accept: RULE_FILE_EXTENSIONS.map((extension) => "." + extension).join(",") },
+      cls: "paste-cleaner-file-input",
+    });
+    ruleFileInput.addEventListener("change", async () => {
+      const file = ruleFileInput.files?.[0];
+      ruleFileInput.value = "";
+      if (file) {
+        importRuleFile(this.plugin, file.name, await file.text(), () => this.display());
+      }
+    });
+
+    new Setting(containerEl)
+      .setName("Rule file")
+      .setDesc(
+        "Import rule sets exported from Paste Cleaner as JSON or YAML. Merge them into your rule sets, or replace all of them." +
+          noteHint,
+      )
+      .addButton((button) => {
+        button
+          .setButtonText("From vault")
+          .setDisabled(usesNote)
+          .onClick(() => {
+            new VaultFileModal(this.app, RULE_FILE_EXTENSIONS, async (file) => {
+              const text = await this.app.vault.cachedRead(file);
+              importRuleFile(this.plugin, file.path, text, () => this.display());
+            }).open();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText("Choose file")
+          .setDisabled(usesNote)
+          .onClick(() => ruleFileInput.click());
+      });
+
+    new Setting(containerEl)
+      .setName("Export rules")
+      .setDesc("Write all rule sets, or a single one, to a JSON or YAML file in your vault.")
+      .addButton((button) => {
+        button.setButtonText("Export").onClick(() => exportRules(this.plugin));
+      });
+  }
+
+  private async importClearUrls(fileName: string, text: string) {
+    try {
+      const { rules, skipped } = await this.plugin.importClearUrls(text);
+      new Notice(
+        `Imported ${rules} rules from ${fileName}` +
+          (skipped > 0 ? `, skipped ${skipped} unsupported providers.` : "."),
+      );
+      this.display(); // Refresh the display
+    } catch (e) {
+      console.error("Failed to import ClearURLs rules:", e);
+      new Notice(`Failed to import ${fileName}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  private async moveRuleSet(index: number, offset: number) {
+    const ruleSets = this.plugin.settings.ruleSets;
+    const target = index + offset;
+    if (target < 0 || target >= ruleSets.length) {
+      return;
+    }
+
+    const [ruleSet] = ruleSets.splice(index, 1);
+    ruleSets.splice(target, 0, ruleSet);
+    await this.applyRuleChange("Failed to move rule set:");
+    this.display(); // Refresh the display
+  }
+
+  /**
+   * Moves a rule to a new position in its set. Moving with the keyboard keeps
+   * the focus on the move button of the rule after the display refresh.
+   */
+  private async reorderRule(ruleSet: RuleSet, rule: RuleConfig, to: number, focus?: "up" | "down") {
+    if (!moveRule(ruleSet, ruleSet.rules.indexOf(rule), to)) {
+      return;
+    }
+
+    await this.applyRuleChange("Failed to move rule:");
+    this.display(); // Refresh the display
+
+    if (focus) {
+      const buttons = this.containerEl.querySelectorAll<HTMLButtonElement>(
+        `[data-rule-id="${rule.id}"] button`,
+      );
+      const button = Array.from(buttons).find((el) => el.dataset.move === focus && !el.disabled);
+      (button ?? buttons[0])?.focus();
+    }
+  }
+
+  private displayRulesNote(containerEl: HTMLElement) {
+    const plugin = this.plugin;
+    const path = plugin.settings.rulesNotePath;
+    const noteSetting = new Setting(containerEl).setName("Rules note");
+
+    if (!path) {
+      noteSetting
+        .setDesc(
+          "Keep the rule sets in a paste-cleaner code block of a note, to sync, version and edit them like your other notes. The rule sets below are used as long as no note is set.",
+        )
+        .addButton((button) => {
+          button.setButtonText("Choose note").onClick(() => {
+            new VaultFileModal(this.app, ["md"], async (file) => {
+              plugin.settings.rulesNotePath = file.path;
+              await plugin.saveSettings();
+              await plugin.loadRulesNote();
+              this.display(); // Refresh the display
+            }).open();
+          });
+        })
+        .addButton((button) => {
+          button
+            .setButtonText("Create from rule sets")
+            .setTooltip("Write the rule sets below to a new note and use it")
+            .onClick(async () => {
+              try {
+                const file = await plugin.createRulesNoteFile();
+                new Notice(`Created rules note ${file.path}.`);
+              } catch (e) {
+                console.error("Paste Cleaner: Failed to create the rules note:", e);
+                new Notice(
+                  `Failed to create the rules note: ${e instanceof Error ? e.message : String(e)}`,
+                );
+              }
+              this.display(); // Refresh the display
+            });
+        });
+      return;
+    }
+
+    noteSetting
+      .setDesc(
+        plugin.noteRuleSets
+          ? `Rule sets are read from ${path}. Edit the note to change them, the rules reload when it is saved.`
+          : `${path} cannot be read, the rule sets stored in the settings are used until it can.`,
+      )
+      .addButton((button) => {
+        button.setButtonText("Open note").onClick(async () => {
+          await this.app.workspace.openLinkText(path, "", "tab");
+        });
+      })
+      .addExtraButton((button) => {
+        button
+          .setIcon("x")
+          .setTooltip("Stop using the note, edit the rule sets stored in the settings")
+          .onClick(async () => {
+            plugin.settings.rulesNotePath = "";
+            await plugin.saveSettings();
+            await plugin.loadRulesNote();
+            this.display(); // Refresh the display
+          });
+      });
+
+    if (plugin.rulesNoteProblems.length > 0) {
+      const problemsEl = containerEl.createEl("ul", { cls: "paste-cleaner-import-problems" });
+      for (const problem of plugin.rulesNoteProblems) {
+        problemsEl.createEl("li", { text: problem });
+      }
+    }
+  }
+
+  /** Shows a rule set read from the rules note, which can only be edited in the note. */
+  private displayNoteRuleSet(containerEl: HTMLElement, ruleSet: RuleSet) {
+    const count = ruleSet.rules.length;
+    const broken = ruleSet.rules.filter((rule) => this.plugin.ruleErrors.has(rule.id)).length;
+    const sectionEl = containerEl.createDiv("paste-cleaner-rule-set");
+    sectionEl.toggleClass("is-disabled", !ruleSet.enabled);
+    new Setting(sectionEl)
+      .setName(ruleSet.name || "Unnamed rule set")
+      .setDesc(
+        (count === 1 ? "1 rule" : `${count} rules`) +
+          (broken > 0 ? `, ${broken} broken` : "") +
+          (ruleSet.enabled ? "" : ", switched off"),
+      )
+      .setClass("paste-cleaner-rule-set-header");
+  }
+
+  private displayRuleSet(containerEl: HTMLElement, ruleSet: RuleSet, setIndex: number) {
+    const plugin = this.plugin;
+    const sectionEl = containerEl.createDiv("paste-cleaner-rule-set");
+    sectionEl.toggleClass("is-collapsed", ruleSet.collapsed);
+    sectionEl.toggleClass("is-disabled", !ruleSet.enabled);
+
+    let failingTests = 0;
+    const ruleCount = () => {
+      const count = ruleSet.rules.length;
+      const broken = ruleSet.rules.filter((rule) => plugin.ruleErrors.has(rule.id)).length;
+      return (
+        (count === 1 ? "1 rule" : `${count} rules`) +
+        (broken > 0 ? `, ${broken} broken` : "") +
+        (failingTests > 0 ? `, ${failingTests} failing tests` : "")
+      );
+    };
+
+    const header = new Setting(sectionEl)
+      .setName(ruleSet.name || "Unnamed rule set")
+      .setDesc(ruleCount())
+      .setClass("paste-cleaner-rule-set-header");
+    this.ruleViews.push(() => header.setDesc(ruleCount()));
+
+    header.addExtraButton((button) => {
+      button
+        .setIcon(ruleSet.collapsed ? "chevron-right" : "chevron-down")
+        .setTooltip(ruleSet.collapsed ? "Expand" : "Collapse")
+        .onClick(async () => {
+          ruleSet.collapsed = !ruleSet.collapsed;
+          sectionEl.toggleClass("is-collapsed", ruleSet.collapsed);
+          button
+            .setIcon(ruleSet.collapsed ? "chevron-right" : "chevron-down")
+            .setTooltip(ruleSet.collapsed ? "Expand" : "Collapse");
+          await plugin.saveSettings();
+        });
+      // Keep the chevron in front of the set name
+      header.settingEl.prepend(button.extraSettingsEl);
+    });
+
+    header.addText((text) => {
+      text
+        .setPlaceholder("Rule set name")
+        .setValue(ruleSet.name)
+        .onChange(async (value) => {
+          ruleSet.name = value;
+          header.setName(value || "Unnamed rule set");
+          // Recompiling renames the "Paste with rule set" command as well
+          await this.applyRuleChange("Failed to rename rule set:");
+        });
+    });
+
+    // Choices remembered in the paste diff modal, only relevant in confirm mode
+    if (plugin.settings.confirmPastes) {
+      header.addDropdown((dropdown) => {
+        dropdown
+          .addOptions(PASTE_CHOICE_NAMES)
+          .setValue(ruleSet.pasteChoice)
+          .onChange(async (value) => {
+            ruleSet.pasteChoice = value as PasteChoice;
+            await plugin.saveSettings();
+          });
+        setTooltip(dropdown.selectEl, "What to insert when this set changes a paste");
+      });
+    }
+
+    header.addToggle((toggle) => {
+      toggle
+        .setValue(ruleSet.enabled)
+        .setTooltip("Apply the rules of this set")
+        .onChange(async (value) => {
+          ruleSet.enabled = value;
+          sectionEl.toggleClass("is-disabled", !value);
+          await this.applyRuleChange("Failed to update rule set state:");
+        });
+    });
+
+    header.addExtraButton((button) => {
+      button
+        .setIcon("arrow-up")
+        .setTooltip("Move rule set up")
+        .setDisabled(setIndex === 0)
+        .onClick(() => this.moveRuleSet(setIndex, -1));
+    });
+
+    header.addExtraButton((button) => {
+      button
+        .setIcon("arrow-down")
+        .setTooltip("Move rule set down")
+        .setDisabled(setIndex === plugin.settings.ruleSets.length - 1)
+        .onClick(() => this.moveRuleSet(setIndex, 1));
+    });
+
+    header.addExtraButton((button) => {
+      button
+        .setIcon("trash")
+        .setTooltip("Delete rule set")
+        .onClick(async () => {
+          plugin.settings.ruleSets.splice(setIndex, 1);
+          for (const rule of ruleSet.rules) {
+            delete plugin.settings.ruleStats[rule.id];
+          }
+          await this.applyRuleChange("Failed to delete rule set:");
+          this.display(); // Refresh the display
+        });
+    });
+
+    const bodyEl = sectionEl.createDiv("paste-cleaner-rule-set-body");
+
+    // Create grid container for rules
+    const rulesContainer = bodyEl.createDiv("paste-cleaner-rules-grid");
+
+    // Add grid header, the first column holds the drag handles, the last the delete buttons
+    const headers = [
+      "\u00A0",
+      "On",
+      "Name",
+      "Type",
+      "Pattern",
+      "Flags",
+      "Replacement",
+      "Domains",
+      "Matches",
+      "\u00A0",
+    ];
+    for (const headerText of headers) {
+      rulesContainer.createEl("div", {
+        text: headerText,
+        cls: "paste-cleaner-header",
+      });
+    }
+
+    let addRuleButton: ButtonComponent | null = null;
+    const updateAddRuleButton = () => {
+      if (!addRuleButton) {
+        return;
+      }
+
+      const rules = ruleSet.rules;
+      const lastRule = rules.length > 0 ? rules[rules.length - 1] : undefined;
+      const hasEmptyTail = lastRule !== undefined && lastRule.pattern.trim().length === 0;
+
+      addRuleButton
+        .setDisabled(hasEmptyTail)
+        .setTooltip(hasEmptyTail ? "Fill the current rule before adding another" : "");
+    };
+
+    // Create rows for existing rules
+    ruleSet.rules.forEach((rule, index) => {
+      this.createRuleRow(rulesContainer, ruleSet, rule, index, updateAddRuleButton);
+    });
+
+    // Add new rule button
+    new Setting(bodyEl).addButton((button) => {
+      addRuleButton = button;
+      button
+        .setButtonText("Add new rule")
+        .setCta()
+        .onClick(async () => {
+          const rules = ruleSet.rules;
+          if (rules.length > 0 && rules[rules.length - 1].pattern.trim().length === 0) {
+            return;
+          }
+
+          rules.push(createRule());
+          await plugin.saveSettings();
+          this.display(); // Refresh the display
+        });
+      updateAddRuleButton();
+    });
+
+    this.displayTestCases(bodyEl, ruleSet, (failing) => {
+      failingTests = failing;
+      header.setDesc(ruleCount());
+    });
+  }
+
+  /**
+   * Shows the saved test cases of a rule set. They run against the rules of
+   * the set alone, whenever a rule or the test case changes.
+   */
+  private displayTestCases(
+    bodyEl: HTMLElement,
+    ruleSet: RuleSet,
+    onRun: (failing: number) => void,
+  ) {
+    const plugin = this.plugin;
+    const testsEl = bodyEl.createDiv("paste-cleaner-test-cases");
+
+    new Setting(testsEl)
+      .setName("Test cases")
+      .setDesc("Example inputs with the output the rules of this set should produce.")
+      .addButton((button) => {
+        button
+          .setButtonText("Add from test area")
+          .setTooltip("Save the test input with the current result of this set")
+          .onClick(async () => {
+            if (this.testInputValue === "") {
+              new Notice("Enter a test input first.");
+              return;
+            }
+            const expected = applyRules(this.testInputValue, plugin.compileRuleSet(ruleSet.id));
+            ruleSet.tests.push(createTestCase({ input: this.testInputValue, expected }));
+            await plugin.saveSettings();
+            this.display(); // Refresh the display
+          });
+      })
+      .addButton((button) => {
+        button.setButtonText("Add test case").onClick(async () => {
+          ruleSet.tests.push(createTestCase());
+          await plugin.saveSettings();
+          this.display(); // Refresh the display
+        });
+      });
+
+    const views = ruleSet.tests.map((testCase, index) =>
+      this.createTestCaseView(testsEl, ruleSet, testCase, index, () => runTests()),
+    );
+    const runTests = () => {
+      const results = runTestCases(ruleSet.tests, plugin.compileRuleSet(ruleSet.id));
+      results.forEach((result, index) => views[index](result));
+      onRun(results.filter((result) => !result.passed).length);
+    };
+    this.ruleViews.push(runTests);
+  }
+
+  private createTestCaseView(
+    testsEl: HTMLElement,
+    ruleSet: RuleSet,
+    testCase: RuleTestCase,
+    index: number,
+    runTests: () => void,
+  ): (result: TestCaseResult) => void {
+    const plugin = this.plugin;
+    const caseEl = testsEl.createDiv("paste-cleaner-test-case");
+
+    const header = new Setting(caseEl)
+      .addText((text) => {
+        text
+          .setPlaceholder(`Test case ${index + 1}`)
+          .setValue(testCase.name)
+          .onChange(async (value) => {
+            testCase.name = value;
+            await plugin.saveSettings();
+          });
+      })
+      .addExtraButton((button) => {
+        button
+          .setIcon("trash")
+          .setTooltip("Delete test case")
+          .onClick(async () => {
+            ruleSet.tests.splice(ruleSet.tests.indexOf(testCase), 1);
+            await plugin.saveSettings();
+            this.display(); // Refresh the display
+          });
+      });
+
+    const fieldsEl = caseEl.createDiv("paste-cleaner-test-case-fields");
+    for (const field of ["input", "expected"] as const) {
+      const textArea = new TextAreaComponent(fieldsEl)
+        .setPlaceholder(field === "input" ? "Input" : "Expected output")
+        .setValue(testCase[field])
+        .onChange(async (value) => {
+          testCase[field] = value;
+          runTests();
+          await plugin.saveSettings();
+        });
+      textArea.inputEl.addClass("paste-cleaner-test-textarea");
+      textArea.inputEl.rows = 3;
+    }
+
+    const actualEl = caseEl.createDiv("paste-cleaner-test-case-actual");
+    return (result) => {
+      header.setName(result.passed ? "Passed" : "Failed");
+      caseEl.toggleClass("is-failing", !result.passed);
+      actualEl.empty();
+      if (!result.passed) {
+        actualEl.createDiv({ text: "Differences between the expected and the actual output:" });
+        renderDiff(actualEl, testCase.expected, result.actual);
+      }
+    };
+  }
+
+  /** Runs the test cases of every rule set, enabled or not. */
+  private runAllTests(): TestCaseResult[] {
+    return this.plugin.ruleSets
+      .map((ruleSet) => runTestCases(ruleSet.tests, this.plugin.compileRuleSet(ruleSet.id)))
+      .reduce((all, results) => all.concat(results), []);
+  }
+
+  private createRuleRow(
+    rulesContainer: HTMLElement,
+    ruleSet: RuleSet,
+    rule: RuleConfig,
+    index: number,
+    updateAddRuleButton: () => void,
+  ) {
+    let updateModeState: (() => void) | null = null;
+    const rowCells: HTMLElement[] = [];
+    const createCell = (cls = "paste-cleaner-cell") => {
+      const cell = rulesContainer.createDiv(cls);
+      rowCells.push(cell);
+      return cell;
+    };
+    const updateRowState = () => {
+      for (const cell of rowCells) {
+        cell.toggleClass("is-disabled", !rule.enabled);
+      }
+    };
+
+    // Column 1: Drag handle and move buttons, the buttons keep reordering keyboard accessible
+    const orderCell = createCell("paste-cleaner-cell paste-cleaner-order");
+    orderCell.dataset.ruleId = rule.id;
+    const handleEl = orderCell.createDiv("paste-cleaner-drag-handle");
+    setIcon(handleEl, "grip-vertical");
+    setTooltip(handleEl, "Drag to reorder");
+    handleEl.draggable = true;
+    handleEl.addEventListener("dragstart", (e: DragEvent) => {
+      this.draggedRule = { ruleSet, rule };
+      e.dataTransfer?.setData("text/plain", rule.id);
+      if (e.dataTransfer) {
+        e.dataTransfer.effectAllowed = "move";
+      }
+    });
+    handleEl.addEventListener("dragend", () => {
+      this.draggedRule = null;
+    });
+
+    const lastIndex = ruleSet.rules.length - 1;
+    for (const [direction, offset] of [
+      ["up", -1],
+      ["down", 1],
+    ] as const) {
+      const button = new ButtonComponent(orderCell)
+        .setIcon(`arrow-${direction}`)
+        .setTooltip(`Move rule ${direction}`)
+        .setClass("clickable-icon")
+        .setDisabled(index + offset < 0 || index + offset > lastIndex)
+        .onClick(() => this.reorderRule(ruleSet, rule, index + offset, direction));
+      button.buttonEl.dataset.move = direction;
+    }
+
+    // Column 2: Enabled toggle
+    const enabledCell = createCell();
+    new Setting(enabledCell).addToggle((toggle) => {
+      toggle
+        .setValue(rule.enabled)
+        .setTooltip("Disable to keep the rule without applying it")
+        .onChange(async (value) => {
+          rule.enabled = value;
+          updateRowState();
+          await this.applyRuleChange("Failed to update rule state:");
+        });
+    });
+
+    // Column 3: Name input
+    const nameCell = createCell();
+    new Setting(nameCell).addText((text) => {
+      text.inputEl.addClass("paste-cleaner-input", "paste-cleaner-name-input");
+      text
+        .setPlaceholder("Optional name")
+        .setValue(rule.name)
+        .onChange(async (value) => {
+          rule.name = value;
+          await this.applyRuleChange("Failed to update rule name:");
+        });
+    });
+
+    // Column 4: Rule type
+    const modeCell = createCell();
+    new Setting(modeCell).addDropdown((dropdown) => {
+      dropdown
+        .addOptions(RULE_MODE_NAMES)
+        .setValue(rule.mode)
+        .onChange(async (value) => {
+          rule.mode = value as RuleMode;
+          updateModeState?.();
+          await this.applyRuleChange("Failed to update rule type:");
+        });
+    });
+
+    // Column 5: Pattern input
+    let patternInput: TextComponent | null = null;
+    const patternCell = createCell();
+    new Setting(patternCell).addText((text) => {
+      patternInput = text;
+      text.inputEl.addClass("paste-cleaner-input");
+      text.setValue(rule.pattern).onChange(async (value) => {
+        rule.pattern = value;
+        await this.applyRuleChange("Failed to update rule:");
+        updateAddRuleButton();
+      });
+
+      // Filter lists are pasted line by line, keep the filters apart and drop comments
+      text.inputEl.addEventListener("paste", (e: ClipboardEvent) => {
+        const pasted = e.clipboardData?.getData("text/plain") ?? "";
+        if (rule.mode !== "filter" || !/[\r\n]/.test(pasted)) {
+          return;
+        }
+
+        e.preventDefault();
+        const filters = pasted
+          .split(/[\r\n]+/)
+          .map((line) => line.trim())
+          .filter((line) => line.length > 0 && line[0] !== "!" && line[0] !== "[")
+          .join(" ");
+        const input = text.inputEl;
+        input.setRangeText(
+          filters,
+          input.selectionStart ?? input.value.length,
+          input.selectionEnd ?? input.value.length,
+          "end",
+        );
+        input.dispatchEvent(new Event("input"));
+      });
+    });
+
+    // Compile errors show up below the pattern, with the column where it is known
+    const errorEl = patternCell.createDiv("paste-cleaner-rule-error");
+    this.ruleViews.push(() => {
+      const error = this.plugin.ruleErrors.get(rule.id);
+      patternInput?.inputEl.toggleClass("is-invalid", error !== undefined);
+      patternInput?.inputEl.setAttribute("aria-invalid", String(error !== undefined));
+      errorEl.setText(
+        error ? error.message + (error.column ? ` (column ${error.column})` : "") : "",
+      );
+      errorEl.toggle(error !== undefined);
+    });
+
+    // Column 6: Flag buttons, flags that only apply to regex rules are disabled for other types,
+    // filter lists take no flags at all
+    const flagsCell = createCell("paste-cleaner-cell paste-cleaner-flags");
+    const flagButtons = RULE_FLAGS.map((ruleFlag) => {
+      const button = flagsCell.createEl("button", {
+        text: ruleFlag.flag,
+        cls: "paste-cleaner-flag",
+      });
+      setTooltip(button, ruleFlag.name);
+      button.addEventListener("click", async (e: MouseEvent) => {
+        e.preventDefault();
+        const current = rule.flags;
+        const toggled =
+          current.indexOf(ruleFlag.flag) === -1
+            ? current + ruleFlag.flag
+            : current.replace(ruleFlag.flag, "");
+        rule.flags = normalizeFlags(toggled, true);
+        updateModeState?.();
+        await this.applyRuleChange("Failed to update rule flags:");
+      });
+      return { ruleFlag, button };
+    });
+
+    // Column 7: Replacement input
+    let replacementInput: TextComponent | null = null;
+    const replacementCell = createCell();
+    new Setting(replacementCell).addText((text) => {
+      replacementInput = text;
+      text.inputEl.addClass("paste-cleaner-input");
+      text.setValue(rule.replacement).onChange(async (value) => {
+        rule.replacement = value;
+        await this.applyRuleChange("Failed to update replacement:");
+      });
+      setTooltip(text.inputEl, "Regex rules can reference capture groups with $1 or $<name>");
+    });
+
+    // Column 8: Domain scope
+    const domainsCell = createCell();
+    new Setting(domainsCell).addText((text) => {
+      text.inputEl.addClass("paste-cleaner-input");
+      text
+        .setPlaceholder(rule.urlPattern ? "Matching links" : "All text")
+        .setValue(rule.domains.join(", "))
+        .onChange(async (value) => {
+          rule.domains = value.split(/[\s,]+/).filter((domain) => domain.length > 0);
+          await this.applyRuleChange("Failed to update rule domains:");
+        });
+      setTooltip(
+        text.inputEl,
+        rule.urlPattern
+          ? `Only applies inside links matching ${rule.urlPattern}. Add hosts to narrow it down further.`
+          : "Only apply inside links to these hosts, e.g. *.amazon.com, youtu.be. Leave empty to apply to all text.",
+      );
+    });
+
+    // Column 9: Lifetime matches
+    const stats = this.plugin.settings.ruleStats[rule.id];
+    const statsCell = createCell("paste-cleaner-cell paste-cleaner-stats");
+    statsCell.setText(stats ? String(stats.matches) : "\u2013");
+    statsCell.toggleClass("is-unused", !stats);
+    setTooltip(statsCell, describeStats(stats));
+
+    // Column 10: Delete button
+    const deleteCell = createCell();
+    new Setting(deleteCell).addExtraButton((button) => {
+      button
+        .setIcon("trash")
+        .setTooltip("Delete rule")
+        .onClick(() => this.deleteRule(ruleSet, rule));
+    });
+
+    updateModeState = () => {
+      const isRegex = rule.mode === "regex" || rule.mode === "redirect";
+      for (const { ruleFlag, button } of flagButtons) {
+        const active = rule.flags.indexOf(ruleFlag.flag) !== -1;
+        button.toggleClass("is-active", active);
+        button.setAttribute("aria-pressed", String(active));
+        button.disabled = rule.mode === "filter" || (!isRegex && !ruleFlag.literal);
+      }
+
+      patternInput?.setPlaceholder(PATTERN_PLACEHOLDERS[rule.mode]);
+
+      // Query parameter rules always remove the whole parameter, redirects insert the target
+      const canReplace = rule.mode === "literal" || rule.mode === "regex";
+      replacementInput
+        ?.setDisabled(!canReplace)
+        .setPlaceholder(canReplace ? "Empty to remove" : "Not available");
+    };
+    // Every cell of the row accepts drops, the dropped rule takes the place of this one
+    const setDropTarget = (active: boolean) => {
+      const from = this.draggedRule ? ruleSet.rules.indexOf(this.draggedRule.rule) : index;
+      for (const cell of rowCells) {
+        cell.toggleClass("is-drop-before", active && from > index);
+        cell.toggleClass("is-drop-after", active && from < index);
+      }
+    };
+    for (const cell of rowCells) {
+      cell.addEventListener("dragover", (e: DragEvent) => {
+        if (this.draggedRule?.ruleSet !== ruleSet) {
+          return;
+        }
+        e.preventDefault();
+        if (e.dataTransfer) {
+          e.dataTransfer.dropEffect = "move";
+        }
+        setDropTarget(true);
+      });
+      cell.addEventListener("dragleave", () => setDropTarget(false));
+      cell.addEventListener("drop", (e: DragEvent) => {
+        const dragged = this.draggedRule;
+        this.draggedRule = null;
+        setDropTarget(false);
+        if (dragged?.ruleSet !== ruleSet) {
+          return;
+        }
+        e.preventDefault();
+        void this.reorderRule(ruleSet, dragged.rule, index);
+      });
+    }
+
+    updateModeState();
+    updateRowState();
+  }
+}
+
+function describeStats(stats: RuleStats | undefined): string {
+  if (!stats) {
+    return "Never matched";
   }
+  const date = new Date(stats.lastMatched).toLocaleDateString();
+  return `${stats.matches} matches, ${stats.removed} characters removed, last matched on ${date}`;
 }
@@ -0,0 +1,34 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+import { FuzzySuggestModal } from "obsidian";
+import type { App, TFile } from "obsidian";
+
+/** Lets the user pick a file with one of the given extensions from the vault. */
+export class VaultFileModal extends FuzzySuggestModal<TFile> {
+  private extensions: string[];
+  private onChoose: (file: TFile) => void;
+
+  constructor(app: App, extensions: string[], onChoose: (file: TFile) => void) {
+    super(app);
+    this.extensions = extensions;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a file...");
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter((file) => this.extensions.includes(file.extension));
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
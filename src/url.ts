@@ -0,0 +1,210 @@
+/*
+	Paste Cleaner Obsidian Plugin
+	https://github.com/fry69/obsidian-paste-cleaner
+	Copyright (c) 2025 fry69
+	Licensed under the MIT license, see LICENSE file for details.
+*/
+
+// Deliberately loose, the end of a URL is decided by trimUrl() below
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+/**
+ * Drops trailing characters that most likely belong to the surrounding text,
+ * like sentence punctuation or the closing parenthesis of a Markdown link.
+ */
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const last = url[end - 1];
+    const candidate = url.slice(0, end);
+    if (".,;:!?*".indexOf(last) !== -1) {
+      end--;
+    } else if (last === ")" && count(candidate, ")") > count(candidate, "(")) {
+      end--;
+    } else if (last === "]" && count(candidate, "]") > count(candidate, "[")) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+/** Replaces every http(s) URL found in the text with the result of the callback. */
+export function replaceUrls(text: string, replacer: (url: string) => string): string {
+  URL_PATTERN.lastIndex = 0;
+  return text.replace(URL_PATTERN, (match) => {
+    const url = trimUrl(match);
+    return replacer(url) + match.slice(url.length);
+  });
+}
+
+/** Finds every http(s) URL in the text, with the index it starts at. */
+export function findUrls(text: string): { url: string; index: number }[] {
+  const urls: { url: string; index: number }[] = [];
+  URL_PATTERN.lastIndex = 0;
+  for (let match = URL_PATTERN.exec(text); match; match = URL_PATTERN.exec(text)) {
+    urls.push({ url: trimUrl(match[0]), index: match.index });
+  }
+  return urls;
+}
+
+/** Extracts the lowercased host name of an http(s) URL. */
+function getHost(url: string): string {
+  const match = /^https?:\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]+)/i.exec(url);
+  return match ? match[1].toLowerCase() : "";
+}
+
+/**
+ * Builds a matcher for URLs whose host matches one of the domain patterns.
+ * "*.example.com" matches example.com and all of its subdomains, other "*"
+ * match anything (amazon.* matches amazon.de and amazon.co.uk).
+ */
+export function parseDomainMatcher(domains: string[]): (url: string) => boolean {
+  const patterns = domains
+    .map((domain) => domain.trim().toLowerCase())
+    .filter((domain) => domain.length > 0)
+    .map((domain) => {
+      const subdomains = domain.indexOf("*.") === 0;
+      const rest = subdomains ? domain.slice(2) : domain;
+      const source = rest
+        .split("*")
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+      return new RegExp(`^${subdomains ? "(?:.*\\.)?" : ""}${source}$`);
+    });
+
+  return (url) => {
+    const host = getHost(url);
+    return host.length > 0 && patterns.some((pattern) => pattern.test(host));
+  };
+}
+
+function decodeComponent(component: string, plusAsSpace = true): string {
+  try {
+    return decodeURIComponent(plusAsSpace ? component.replace(/\+/g, " ") : component);
+  } catch {
+    return component;
+  }
+}
+
+/**
+ * Filters "name=value&..." parameters, returns null when nothing was removed.
+ * The callback gets the decoded name and the whole decoded parameter.
+ */
+function filterParams(
+  params: string,
+  shouldRemove: (name: string, param: string) => boolean,
+): string | null {
+  const parts = params.split("&");
+  const kept = parts.filter((part) => {
+    if (part.length === 0) {
+      return false;
+    }
+    const separator = part.indexOf("=");
+    const name = separator === -1 ? part : part.slice(0, separator);
+    return !shouldRemove(decodeComponent(name), decodeComponent(part));
+  });
+
+  const nonEmpty = parts.filter((part) => part.length > 0).length;
+  return kept.length === nonEmpty ? null : kept.join("&");
+}
+
+/**
+ * Removes query parameters from a URL without otherwise touching it, so the
+ * original encoding is preserved. Parameters in a query-like fragment
+ * ("#a=1&b=2") are filtered as well, other fragments are kept verbatim.
+ */
+export function removeQueryParams(
+  url: string,
+  shouldRemove: (name: string, param: string) => boolean,
+): string {
+  const hashIndex = url.indexOf("#");
+  const beforeHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  let fragment = hashIndex === -1 ? "" : url.slice(hashIndex);
+
+  const queryIndex = beforeHash.indexOf("?");
+  const base = queryIndex === -1 ? beforeHash : beforeHash.slice(0, queryIndex);
+  let query = queryIndex === -1 ? "" : beforeHash.slice(queryIndex);
+
+  if (query.length > 1) {
+    const filtered = filterParams(query.slice(1), shouldRemove);
+    if (filtered !== null) {
+      query = filtered.length > 0 ? "?" + filtered : "";
+    }
+  }
+
+  if (fragment.length > 1 && /^#[^=#/:]+=/.test(fragment)) {
+    const filtered = filterParams(fragment.slice(1), shouldRemove);
+    if (filtered !== null) {
+      fragment = filtered.length > 0 ? "#" + filtered : "";
+    }
+  }
+
+  return base + query + fragment;
+}
+
+/** Extracts the path of an http(s) URL, "/" when it has none. */
+export function getPath(url: string): string {
+  const match = /^https?:\/\/[^/?#]*(\/[^?#]*)?/i.exec(url);
+  return match?.[1] ?? "/";
+}
+
+/** Returns the decoded value of the first query parameter with that name, or null. */
+export function getQueryParam(url: string, name: string): string | null {
+  const hashIndex = url.indexOf("#");
+  const beforeHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = beforeHash.indexOf("?");
+  if (queryIndex === -1) {
+    return null;
+  }
+
+  for (const part of beforeHash.slice(queryIndex + 1).split("&")) {
+    const separator = part.indexOf("=");
+    if (separator !== -1 && decodeComponent(part.slice(0, separator)) === name) {
+      // A literal "+" is more likely part of the value than an encoded space
+      return decodeComponent(part.slice(separator + 1), false);
+    }
+  }
+  return null;
+}
+
+// A regular expression in slashes up to the next separator, or a plain entry
+const PARAM_ENTRY_PATTERN = /\/(?:\\.|[^\\/])+\/[a-z]*(?=[\s,]|$)|[^\s,]+/g;
+
+/**
+ * Parses a list of parameter names separated by commas or whitespace. Entries
+ * ending in "*" match by prefix (utm_*), entries in slashes are regular
+ * expressions (/^mc_/), everything else has to match the name exactly.
+ * Regular expressions may contain commas and spaces.
+ */
+export function parseParamMatcher(pattern: string, ignoreCase: boolean): (name: string) => boolean {
+  const entries = pattern.match(PARAM_ENTRY_PATTERN) ?? [];
+  if (entries.length === 0) {
+    throw new Error("Parameter list cannot be empty.");
+  }
+
+  const normalize = (text: string) => (ignoreCase ? text.toLowerCase() : text);
+  const matchers = entries.map((entry): ((name: string) => boolean) => {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(entry);
+    if (regex) {
+      const flags = ignoreCase && regex[2].indexOf("i") === -1 ? regex[2] + "i" : regex[2];
+      const compiled = new RegExp(regex[1], flags.replace(/[gy]/g, ""));
+      return (name) => compiled.test(name);
+    }
+
+    if (entry.length > 1 && entry[entry.length - 1] === "*") {
+      const prefix = normalize(entry.slice(0, -1));
+      return (name) => normalize(name).indexOf(prefix) === 0;
+    }
+
+    const exact = normalize(entry);
+    return (name) => normalize(name) === exact;
+  });
+
+  return (name) => matchers.some((matches) => matches(name));
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for src/clearurls.ts
+ *
+ * Tests converting ClearURLs rule data into a rule set:
+ * - provider scoped query parameter, raw and redirect rules
+ * - skipped providers and invalid files
+ */
+
+import { expect, test } from "vitest";
+import { convertClearUrls } from "../../src/clearurls.ts";
+import { applyRules, compileRule } from "../../src/rule.ts";
+
+const DATA = {
+  providers: {
+    example: {
+      urlPattern: "^https?:\\/\\/(?:[a-z0-9-]+\\.)*?example\\.com",
+      completeProvider: false,
+      rules: ["ref", "utm_[a-z]+"],
+      referralMarketing: ["tag"],
+      rawRules: ["\\/ref=[^/?]*"],
+      exceptions: ["^https?:\\/\\/example\\.com\\/keep"],
+      redirections: ["^https?:\\/\\/example\\.com\\/out\\?to=([^&]*)"],
+      forceRedirection: false,
+    },
+    "Ad Network": {
+      urlPattern: "^https?:\\/\\/ads\\.example\\.org",
+      completeProvider: true,
+    },
+    broken: {
+      urlPattern: "^https?://broken(",
+      rules: ["id"],
+    },
+  },
+};
+
+test("convertClearUrls: converts providers into scoped rules", () => {
+  const { ruleSet, skipped } = convertClearUrls(DATA);
+
+  expect(ruleSet).toMatchObject({ id: "clearurls", name: "ClearURLs", collapsed: true });
+  expect(ruleSet.rules.map(({ id, mode, pattern }) => ({ id, mode, pattern }))).toEqual([
+    {
+      id: "clearurls-example-redirect-1",
+      mode: "redirect",
+      pattern: "^https?:\\/\\/example\\.com\\/out\\?to=([^&]*)",
+    },
+    { id: "clearurls-example-params", mode: "query", pattern: "/^(?:ref|utm_[a-z]+)$/" },
+    { id: "clearurls-example-referral", mode: "query", pattern: "/^(?:tag)$/" },
+    { id: "clearurls-example-raw-1", mode: "regex", pattern: "\\/ref=[^/?]*" },
+  ]);
+  expect(ruleSet.rules[1]).toMatchObject({
+    urlPattern: DATA.providers.example.urlPattern,
+    urlExceptions: DATA.providers.example.exceptions,
+    flags: "i",
+  });
+  expect(skipped).toEqual(["Ad Network", "broken"]);
+});
+
+test("convertClearUrls: converted rules clean matching URLs only", () => {
+  const rules = convertClearUrls(DATA).ruleSet.rules.map(compileRule);
+  const target = encodeURIComponent("https://www.example.com/a/ref=x?UTM_Source=y&id=1");
+
+  expect(applyRules(`https://example.com/out?to=${target}`, rules)).toBe(
+    "https://www.example.com/a?id=1",
+  );
+  expect(applyRules("https://example.com/keep?ref=1 https://other.com/?ref=1", rules)).toBe(
+    "https://example.com/keep?ref=1 https://other.com/?ref=1",
+  );
+});
+
+test("convertClearUrls: rejects files without providers", () => {
+  expect(() => convertClearUrls({ rules: [] })).toThrow(/providers/);
+  expect(() => convertClearUrls(null)).toThrow(/providers/);
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for src/diff.ts
+ *
+ * Tests the word diff shown before inserting cleaned pastes:
+ * - removed and replaced parts between equal text
+ * - identical, empty and entirely different texts
+ * - character diffs of words that mostly agree
+ * - summaries of removed parameters and other text
+ */
+
+import { expect, test } from "vitest";
+import { diffChars, diffText, summarizeChanges } from "../../src/diff.ts";
+
+test("diffText: finds removed query parameters", () => {
+  expect(
+    diffText("See https://x.com/?utm_source=a&id=1 now", "See https://x.com/?id=1 now"),
+  ).toEqual([
+    { type: "equal", text: "See https://x.com/?" },
+    { type: "removed", text: "utm_source=a&" },
+    { type: "equal", text: "id=1 now" },
+  ]);
+});
+
+test("diffText: shows replacements as removed and added text", () => {
+  expect(diffText("a [1] b [2] c", "a [^1] b [^2] c")).toEqual([
+    { type: "equal", text: "a [" },
+    { type: "added", text: "^" },
+    { type: "equal", text: "1] b [" },
+    { type: "added", text: "^" },
+    { type: "equal", text: "2] c" },
+  ]);
+  expect(diffText("one two", "one three")).toEqual([
+    { type: "equal", text: "one " },
+    { type: "removed", text: "two" },
+    { type: "added", text: "three" },
+  ]);
+});
+
+test("diffText: identical and empty texts", () => {
+  expect(diffText("same text", "same text")).toEqual([{ type: "equal", text: "same text" }]);
+  expect(diffText("", "")).toEqual([]);
+  expect(diffText("gone", "")).toEqual([{ type: "removed", text: "gone" }]);
+});
+
+test("diffText: every removed part is found in a long text", () => {
+  const words = Array.from({ length: 500 }, (_, i) => `word${i}`);
+  const before = words.join(" ");
+  const after = words.filter((_, i) => i % 50 !== 0).join(" ");
+  const segments = diffText(before, after);
+
+  expect(segments.filter((segment) => segment.type === "removed")).toHaveLength(10);
+  expect(
+    segments
+      .filter((segment) => segment.type !== "added")
+      .map((s) => s.text)
+      .join(""),
+  ).toBe(before);
+  expect(
+    segments
+      .filter((segment) => segment.type !== "removed")
+      .map((s) => s.text)
+      .join(""),
+  ).toBe(after);
+});
+
+test("diffChars: compares similar words by character, replaces unrelated ones", () => {
+  expect(diffChars("banana colour", "bnn color")).toEqual([
+    { type: "equal", text: "b" },
+    { type: "removed", text: "a" },
+    { type: "equal", text: "n" },
+    { type: "removed", text: "a" },
+    { type: "equal", text: "n" },
+    { type: "removed", text: "a" },
+    { type: "equal", text: " colo" },
+    { type: "removed", text: "u" },
+    { type: "equal", text: "r" },
+  ]);
+  expect(diffChars("one two", "one more")).toEqual([
+    { type: "equal", text: "one " },
+    { type: "removed", text: "two" },
+    { type: "added", text: "more" },
+  ]);
+});
+
+test("summarizeChanges: names removed query parameters", () => {
+  expect(
+    summarizeChanges(
+      "https://x.com/?utm_source=a&id=1&fbclid=b https://y.com/?utm_source=c",
+      "https://x.com/?id=1 https://y.com/",
+      2,
+    ),
+  ).toBe("Removed 3 tracking parameters (utm_source, fbclid)");
+  expect(summarizeChanges("https://x.com/?si=abc", "https://x.com/", 1)).toBe(
+    "Removed 1 tracking parameter (si)",
+  );
+});
+
+test("summarizeChanges: quotes other removed text and counts replacements", () => {
+  expect(summarizeChanges("Answer【4:0†source】 here", "Answer here", 1)).toBe(
+    'Cleaned 1 match ("【4:0†source】")',
+  );
+  expect(summarizeChanges("a [1] b", "a [^1] b", 1)).toBe("Changed 1 match");
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for src/filters.ts
+ *
+ * Tests parsing uBlock Origin / AdGuard "$removeparam" filters:
+ * - host anchored and generic filters, names and regular expressions
+ * - exception filters and ignored filters
+ */
+
+import { expect, test } from "vitest";
+import { parseRemoveParamFilters } from "../../src/filters.ts";
+
+test("parseRemoveParamFilters: host anchored filters only apply to that host", () => {
+  const cleanUrl = parseRemoveParamFilters("||example.com^$removeparam=ref");
+
+  expect(cleanUrl("https://example.com/a?ref=1&id=2")).toBe("https://example.com/a?id=2");
+  expect(cleanUrl("https://www.example.com/?ref=1")).toBe("https://www.example.com/");
+  expect(cleanUrl("https://notexample.com/?ref=1")).toBe("https://notexample.com/?ref=1");
+  expect(cleanUrl("https://example.com.evil.org/?ref=1")).toBe(
+    "https://example.com.evil.org/?ref=1",
+  );
+});
+
+test("parseRemoveParamFilters: regular expressions match name=value", () => {
+  const cleanUrl = parseRemoveParamFilters("$removeparam=/^utm_/ $removeparam=/^src=ads$/i");
+
+  expect(cleanUrl("https://a.com/?utm_source=x&src=ADS&src=home")).toBe("https://a.com/?src=home");
+});
+
+test("parseRemoveParamFilters: empty and inverted values", () => {
+  expect(parseRemoveParamFilters("||a.com^$removeparam")("https://a.com/?x=1&y=2")).toBe(
+    "https://a.com/",
+  );
+  expect(parseRemoveParamFilters("||a.com^$removeparam=~id")("https://a.com/?x=1&id=2")).toBe(
+    "https://a.com/?id=2",
+  );
+});
+
+test("parseRemoveParamFilters: exception filters keep parameters", () => {
+  const cleanUrl = parseRemoveParamFilters(
+    "$removeparam=/^utm_/ @@||keep.com^$removeparam=utm_source @@||all.com^$removeparam",
+  );
+
+  expect(cleanUrl("https://keep.com/?utm_source=a&utm_medium=b")).toBe(
+    "https://keep.com/?utm_source=a",
+  );
+  expect(cleanUrl("https://all.com/?utm_source=a")).toBe("https://all.com/?utm_source=a");
+});
+
+test("parseRemoveParamFilters: ignores unrelated and page dependent filters", () => {
+  const cleanUrl = parseRemoveParamFilters(
+    "||ads.com^ example.com##.banner $removeparam=fbclid,domain=a.com $removeparam=gclid,document",
+  );
+
+  expect(cleanUrl("https://b.com/?fbclid=1&gclid=2")).toBe("https://b.com/?fbclid=1");
+  expect(() => parseRemoveParamFilters("||ads.com^ ! comment")).toThrow(/No \$removeparam/);
+});
+
+test("parseRemoveParamFilters: drops comment lines with the filters quoted in them", () => {
+  const cleanUrl = parseRemoveParamFilters(
+    [
+      "[Adblock Plus 2.0]",
+      "! Title: list with $removeparam=id",
+      "# hosts style $removeparam=page",
+      "||example.com^$removeparam=ref ! and $removeparam=tab",
+    ].join("\r\n"),
+  );
+
+  expect(cleanUrl("https://example.com/?id=5&page=2&tab=3&ref=1")).toBe(
+    "https://example.com/?id=5&page=2&tab=3",
+  );
+});
+
+test("parseRemoveParamFilters: escaped commas stay part of the value", () => {
+  const cleanUrl = parseRemoveParamFilters("$removeparam=/^(a|b)=\\d{1\\,3}$/");
+
+  expect(cleanUrl("https://c.com/?a=12&b=1234")).toBe("https://c.com/?b=1234");
+});
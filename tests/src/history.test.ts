@@ -0,0 +1,57 @@
+/**
+ * Unit tests for src/history.ts
+ *
+ * Tests the bounded paste history:
+ * - newest entries first, old entries dropped beyond the limit
+ * - restoring saved entries and notifying listeners
+ */
+
+import { expect, test } from "vitest";
+import { PasteHistory, type PasteHistoryEntry } from "../../src/history.ts";
+
+function entry(time: number): PasteHistoryEntry {
+  return { time, notePath: "Note.md", original: `a${time}`, cleaned: `b${time}`, rules: [] };
+}
+
+test("PasteHistory: keeps the newest entries up to the limit", () => {
+  const history = new PasteHistory(2);
+  history.add(entry(1));
+  history.add(entry(2));
+  history.add(entry(3));
+
+  expect(history.entries.map((e) => e.time)).toEqual([3, 2]);
+
+  history.setLimit(1);
+  expect(history.entries.map((e) => e.time)).toEqual([3]);
+});
+
+test("PasteHistory: loads saved entries and drops malformed ones", () => {
+  const history = new PasteHistory(10);
+  history.load([
+    entry(2),
+    { time: 1, original: "x", cleaned: "y", rules: [{ label: "UTM", matches: 2 }, "bogus"] },
+    { time: "yesterday", original: "x", cleaned: "y" },
+    null,
+  ]);
+
+  expect(history.entries).toEqual([
+    entry(2),
+    { time: 1, notePath: "", original: "x", cleaned: "y", rules: [{ label: "UTM", matches: 2 }] },
+  ]);
+
+  history.load({ not: "a list" });
+  expect(history.entries).toEqual([]);
+});
+
+test("PasteHistory: notifies listeners until they unsubscribe", () => {
+  const history = new PasteHistory(5);
+  let calls = 0;
+  const unsubscribe = history.subscribe(() => calls++);
+
+  history.add(entry(1));
+  history.clear();
+  unsubscribe();
+  history.add(entry(2));
+
+  expect(calls).toBe(2);
+});
@@ -0,0 +1,262 @@
+/**
+ * Unit tests for src/migrations.ts
+ *
+ * Tests upgrading stored settings (data.json) of every previous format:
+ * - version 1: regex patterns with parallel replacers (early draft)
+ * - version 2: parallel removalRules/isRegex arrays, optionally with replacements and flags
+ * - version 3: structured rule objects
+ * - version 4: rule objects grouped into rule sets
+ */
+
+import { expect, test } from "vitest";
+import { join } from "node:path";
+import { readFile } from "node:fs/promises";
+import { migrateSettings } from "../../src/migrations.ts";
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_FORMAT_VERSION,
+  createTestCase,
+  type PasteCleanerSettings,
+  type RuleConfig,
+} from "../../src/settings.ts";
+
+async function loadFixture(name: string): Promise<unknown> {
+  const path = join(process.cwd(), "tests", "fixtures", "settings", name);
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+function allRules(settings: PasteCleanerSettings): RuleConfig[] {
+  return settings.ruleSets.reduce<RuleConfig[]>((rules, set) => rules.concat(set.rules), []);
+}
+
+function withoutIds(settings: PasteCleanerSettings) {
+  return allRules(settings).map((rule) => {
+    const copy: Partial<RuleConfig> = { ...rule };
+    delete copy.id;
+    return copy;
+  });
+}
+
+test("migrateSettings: missing data yields default settings", () => {
+  expect(migrateSettings(null)).toEqual(DEFAULT_SETTINGS);
+  expect(migrateSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+  expect(migrateSettings({})).toEqual(DEFAULT_SETTINGS);
+});
+
+test("migrateSettings: default rules are copied, not shared", () => {
+  const settings = migrateSettings(null);
+  settings.ruleSets[0].rules[0].pattern = "changed";
+  settings.ruleSets[0].rules[0].domains.push("example.com");
+  settings.ruleSets[0].rules[0].urlExceptions.push("example.org");
+  settings.ruleSets[0].tests.push(createTestCase({ input: "a", expected: "b" }));
+
+  expect(DEFAULT_SETTINGS.ruleSets[0].rules[0].pattern).toBe("?utm_source=chatgpt.com");
+  const defaults = migrateSettings(null).ruleSets[0];
+  expect(defaults.tests).toEqual([]);
+  expect(defaults.rules[0].domains).toEqual([]);
+  expect(defaults.rules[0].urlExceptions).toEqual([]);
+});
+
+test("migrateSettings: version 1 patterns become regex rules with replacements", async () => {
+  const settings = migrateSettings(await loadFixture("v1.json"));
+
+  expect(settings.settingsFormatVersion).toBe(SETTINGS_FORMAT_VERSION);
+  expect(settings.debugMode).toBe(true);
+  expect(withoutIds(settings)).toEqual([
+    {
+      name: "",
+      description: "",
+      pattern: "^https://github.com/[^/]+/([^/]+)/issues/(\\d+)$",
+      mode: "regex",
+      enabled: true,
+      flags: "",
+      replacement: "[$1#$2]($&)",
+      domains: [],
+      urlPattern: "",
+      urlExceptions: [],
+    },
+    {
+      name: "",
+      description: "",
+      pattern: "\\s+$",
+      mode: "regex",
+      enabled: true,
+      flags: "",
+      replacement: "",
+      domains: [],
+      urlPattern: "",
+      urlExceptions: [],
+    },
+  ]);
+});
+
+test("migrateSettings: version 2 parallel arrays become rule objects", async () => {
+  const settings = migrateSettings(await loadFixture("v2.json"));
+
+  expect(settings.settingsFormatVersion).toBe(SETTINGS_FORMAT_VERSION);
+  expect(settings.debugMode).toBe(false);
+  expect(
+    allRules(settings).map(({ pattern, mode, enabled }) => ({ pattern, mode, enabled })),
+  ).toEqual([
+    { pattern: "?utm_source=chatgpt.com", mode: "literal", enabled: true },
+    {
+      pattern: "[?&](utm_medium|utm_campaign|utm_content|fbclid|gclid)=[^&\\s]*",
+      mode: "regex",
+      enabled: true,
+    },
+  ]);
+});
+
+test("migrateSettings: version 2 replacements and flags are kept", async () => {
+  const settings = migrateSettings(await loadFixture("v2-replacements.json"));
+
+  expect(
+    allRules(settings).map(({ pattern, mode, flags, replacement }) => ({
+      pattern,
+      mode,
+      flags,
+      replacement,
+    })),
+  ).toEqual([
+    { pattern: "http://", mode: "literal", flags: "i", replacement: "https://" },
+    { pattern: "\\[(\\d+)\\]", mode: "regex", flags: "", replacement: "[^$1]" },
+    { pattern: "^> ", mode: "regex", flags: "m", replacement: "" },
+    { pattern: "", mode: "literal", flags: "", replacement: "" },
+  ]);
+});
+
+test("migrateSettings: version 2 rules without isRegex entry are kept but disabled", async () => {
+  const settings = migrateSettings(await loadFixture("v2-mismatched.json"));
+
+  expect(allRules(settings)).toHaveLength(3);
+  expect(allRules(settings).map((rule) => rule.enabled)).toEqual([true, true, false]);
+  expect(allRules(settings)[2]).toMatchObject({ pattern: "?si=share", mode: "literal" });
+});
+
+test("migrateSettings: version 2 without rule arrays falls back to default rules", () => {
+  const settings = migrateSettings({ settingsFormatVersion: 2, debugMode: true });
+
+  expect(settings.ruleSets).toEqual(DEFAULT_SETTINGS.ruleSets);
+  expect(settings.debugMode).toBe(true);
+});
+
+test("migrateSettings: unversioned parallel arrays are treated as version 2", () => {
+  const settings = migrateSettings({ removalRules: ["foo"], isRegex: [true] });
+
+  expect(settings.settingsFormatVersion).toBe(SETTINGS_FORMAT_VERSION);
+  expect(allRules(settings)).toHaveLength(1);
+  expect(allRules(settings)[0]).toMatchObject({ pattern: "foo", mode: "regex", enabled: true });
+});
+
+test("migrateSettings: rule ids are unique", async () => {
+  const settings = migrateSettings(await loadFixture("v2-replacements.json"));
+  const ids = allRules(settings).map((rule) => rule.id);
+
+  expect(new Set(ids).size).toBe(ids.length);
+  for (const id of ids) {
+    expect(id).not.toBe("");
+  }
+});
+
+test("migrateSettings: current format is stable", async () => {
+  const once = migrateSettings(await loadFixture("v2-replacements.json"));
+  const twice = migrateSettings(JSON.parse(JSON.stringify(once)));
+
+  expect(twice).toEqual(once);
+});
+
+test("migrateSettings: incomplete rule objects are filled with defaults", () => {
+  const settings = migrateSettings({
+    ruleSets: [
+      {
+        id: "set",
+        rules: [{ id: "a", pattern: "foo", mode: "bogus" }, "not a rule", { pattern: "bar" }],
+      },
+    ],
+    settingsFormatVersion: SETTINGS_FORMAT_VERSION,
+  });
+
+  expect(allRules(settings)).toHaveLength(2);
+  expect(allRules(settings)[0]).toEqual({
+    id: "a",
+    name: "",
+    description: "",
+    pattern: "foo",
+    mode: "literal",
+    enabled: true,
+    flags: "",
+    replacement: "",
+    domains: [],
+    urlPattern: "",
+    urlExceptions: [],
+  });
+  expect(allRules(settings)[1].id).not.toBe("");
+  expect(settings.debugMode).toBe(false);
+});
+
+test("migrateSettings: version 3 rules become the first rule set", async () => {
+  const loaded = (await loadFixture("v3.json")) as { rules: RuleConfig[] };
+  const settings = migrateSettings(loaded);
+
+  expect(settings.ruleSets).toEqual([
+    {
+      id: "default",
+      name: "Default",
+      enabled: true,
+      collapsed: false,
+      pasteChoice: "ask",
+      rules: loaded.rules.map((rule) => ({
+        ...rule,
+        domains: [],
+        urlPattern: "",
+        urlExceptions: [],
+      })),
+      tests: [],
+    },
+  ]);
+});
+
+test("migrateSettings: incomplete rule sets are filled with defaults", () => {
+  const settings = migrateSettings({
+    ruleSets: [{ name: "Chat artifacts", enabled: false }, null],
+    settingsFormatVersion: SETTINGS_FORMAT_VERSION,
+  });
+
+  expect(settings.ruleSets).toHaveLength(1);
+  expect(settings.ruleSets[0]).toMatchObject({
+    name: "Chat artifacts",
+    enabled: false,
+    collapsed: false,
+    rules: [],
+  });
+  expect(settings.ruleSets[0].id).not.toBe("");
+});
+
+test("migrateSettings: test cases of rule sets are filled with defaults", () => {
+  const settings = migrateSettings({
+    ruleSets: [{ name: "Links", tests: [{ input: "a?x=1", expected: "a" }, "bogus", { name: 1 }] }],
+    settingsFormatVersion: SETTINGS_FORMAT_VERSION,
+  });
+
+  expect(settings.ruleSets[0].tests).toMatchObject([
+    { name: "", input: "a?x=1", expected: "a" },
+    { name: "", input: "", expected: "" },
+  ]);
+  expect(settings.ruleSets[0].tests[0].id).not.toBe("");
+});
+
+test("migrateSettings: malformed rule statistics are dropped", () => {
+  const settings = migrateSettings({
+    ruleStats: { a: { matches: 3, removed: 12, lastMatched: 1000 }, b: { matches: 1 }, c: "x" },
+    settingsFormatVersion: SETTINGS_FORMAT_VERSION,
+  });
+
+  expect(settings.ruleStats).toEqual({
+    a: { matches: 3, removed: 12, lastMatched: 1000 },
+    b: { matches: 1, removed: 0, lastMatched: 0 },
+  });
+});
+
+test("migrateSettings: unknown old versions are rejected", () => {
+  expect(() => migrateSettings({ settingsFormatVersion: 0 })).toThrow(/format version 0/);
+});
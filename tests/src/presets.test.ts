@@ -0,0 +1,100 @@
+/**
+ * Unit tests for src/presets.ts
+ *
+ * Tests the bundled preset catalog:
+ * - every preset rule compiles and has a unique id
+ * - presets clean typical links and pasted text
+ */
+
+import { expect, test } from "vitest";
+import { PRESETS } from "../../src/presets.ts";
+import { applyRules, compileRule } from "../../src/rule.ts";
+
+function presetRules(id: string) {
+  const preset = PRESETS.find((p) => p.id === id);
+  if (!preset) {
+    throw new Error(`Unknown preset ${id}`);
+  }
+  return preset.rules.map(compileRule);
+}
+
+test("presets: ids are unique and all rules compile", () => {
+  const presetIds = PRESETS.map((preset) => preset.id);
+  const ruleIds = PRESETS.flatMap((preset) => preset.rules.map((rule) => rule.id));
+
+  expect(new Set(presetIds).size).toBe(presetIds.length);
+  expect(new Set(ruleIds).size).toBe(ruleIds.length);
+  for (const preset of PRESETS) {
+    expect(preset.version).toBeGreaterThan(0);
+    for (const rule of preset.rules) {
+      expect(() => compileRule(rule), `${preset.id}: ${rule.name}`).not.toThrow();
+    }
+  }
+});
+
+test("presets: tracking parameters", () => {
+  expect(
+    applyRules(
+      "https://example.com/a?UTM_Source=x&id=3&fbclid=y&mc_cid=z#top",
+      presetRules("tracking"),
+    ),
+  ).toBe("https://example.com/a?id=3#top");
+});
+
+test("presets: Amazon", () => {
+  expect(
+    applyRules(
+      "https://www.amazon.de/dp/B000/ref=sr_1_1?crid=X&keywords=lamp&qid=1&sr=8-1 https://example.com/?ref=keep",
+      presetRules("amazon"),
+    ),
+  ).toBe("https://www.amazon.de/dp/B000?keywords=lamp https://example.com/?ref=keep");
+});
+
+test("presets: YouTube keeps timestamps", () => {
+  expect(
+    applyRules(
+      "https://youtu.be/abc?si=XyZ&t=42 https://example.com/?si=1",
+      presetRules("youtube"),
+    ),
+  ).toBe("https://youtu.be/abc?t=42 https://example.com/?si=1");
+});
+
+test("presets: Spotify and Instagram", () => {
+  expect(
+    applyRules("https://open.spotify.com/track/1?si=abc&context=x", presetRules("spotify")),
+  ).toBe("https://open.spotify.com/track/1");
+  expect(applyRules("https://www.instagram.com/p/C1/?igsh=MTc4", presetRules("instagram"))).toBe(
+    "https://www.instagram.com/p/C1/",
+  );
+});
+
+test("presets: AI chatbot citations", () => {
+  const rules = presetRules("ai-citations");
+
+  expect(
+    applyRules(
+      "Paris is the capital.【4:0†source】 See [docs](https://example.com/?utm_source=chatgpt.com) :contentReference[oaicite:1]{index=1}",
+      rules,
+    ),
+  ).toBe("Paris is the capital. See [docs](https://example.com/)");
+  expect(applyRules("Fact \uE200cite\uE202turn0search1\uE201 done", rules)).toBe("Fact  done");
+  expect(
+    applyRules(
+      "https://a.example/?utm_source=perplexity&id=1 https://b.example/?utm_source=newsletter",
+      rules,
+    ),
+  ).toBe("https://a.example/?id=1 https://b.example/?utm_source=newsletter");
+});
+
+test("presets: Microsoft Office artifacts", () => {
+  expect(
+    applyRules("\uF0B7\tFirst\u00A0item\r\n\u00B7 Sec\u00ADond\u200B\r\n", presetRules("office")),
+  ).toBe("- First item\n- Second\n");
+});
+
+test("presets: Microsoft Office artifacts keep joiners of emoji and scripts", () => {
+  const family = "\u{1F468}\u200D\u{1F469}\u200D\u{1F467}";
+  const persian = "\u0645\u06CC\u200C\u062E\u0648\u0627\u0647\u0645";
+
+  expect(applyRules(`${family} ${persian}`, presetRules("office"))).toBe(`${family} ${persian}`);
+});
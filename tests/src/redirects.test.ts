@@ -0,0 +1,74 @@
+/**
+ * Unit tests for src/redirects.ts
+ *
+ * Tests following redirect wrapper links to their target URL:
+ * - built-in wrappers of well-known sites
+ * - user-defined wrappers by host and parameter
+ * - links that only look like wrappers
+ */
+
+import { expect, test } from "vitest";
+import { BUILTIN_REDIRECTS, compileRedirects, unwrapUrl } from "../../src/redirects.ts";
+
+const builtin = compileRedirects(BUILTIN_REDIRECTS);
+
+test("unwrapUrl: unwraps well-known redirect links", () => {
+  const target = "https://example.com/page?a=1&b=2";
+  const encoded = encodeURIComponent(target);
+
+  expect(unwrapUrl(`https://www.google.com/url?sa=t&url=${encoded}&usg=x`, builtin)).toBe(target);
+  expect(unwrapUrl(`https://www.google.co.uk/url?q=${encoded}`, builtin)).toBe(target);
+  expect(
+    unwrapUrl(
+      `https://eur01.safelinks.protection.outlook.com/?url=${encoded}&data=05%7C01&reserved=0`,
+      builtin,
+    ),
+  ).toBe(target);
+  expect(unwrapUrl(`https://l.facebook.com/l.php?u=${encoded}&h=AT0`, builtin)).toBe(target);
+  expect(unwrapUrl(`https://slack-redir.net/link?url=${encoded}`, builtin)).toBe(target);
+  expect(unwrapUrl(`https://www.linkedin.com/redir/redirect?url=${encoded}`, builtin)).toBe(target);
+});
+
+test("unwrapUrl: follows nested wrappers", () => {
+  const google = `https://www.google.com/url?q=${encodeURIComponent("https://example.com/")}`;
+  const outlook = `https://nam02.safelinks.protection.outlook.com/?url=${encodeURIComponent(google)}`;
+
+  expect(unwrapUrl(outlook, builtin)).toBe("https://example.com/");
+});
+
+test("unwrapUrl: leaves other links alone", () => {
+  expect(unwrapUrl("https://www.google.com/search?q=https://example.com", builtin)).toBe(
+    "https://www.google.com/search?q=https://example.com",
+  );
+  expect(unwrapUrl("https://l.facebook.com/l.php?u=javascript:alert(1)", builtin)).toBe(
+    "https://l.facebook.com/l.php?u=javascript:alert(1)",
+  );
+  expect(unwrapUrl("https://example.com/?url=https%3A%2F%2Fother.example", builtin)).toBe(
+    "https://example.com/?url=https%3A%2F%2Fother.example",
+  );
+});
+
+test("unwrapUrl: matches wrapper paths by whole segments", () => {
+  const encoded = encodeURIComponent("https://example.com/");
+
+  expect(unwrapUrl(`https://www.google.com/urlshortener?url=${encoded}`, builtin)).toBe(
+    `https://www.google.com/urlshortener?url=${encoded}`,
+  );
+  expect(unwrapUrl(`https://www.google.com/url/?q=${encoded}`, builtin)).toBe(
+    "https://example.com/",
+  );
+  expect(unwrapUrl(`https://steamcommunity.com/linkfilter/?url=${encoded}`, builtin)).toBe(
+    "https://example.com/",
+  );
+});
+
+test("unwrapUrl: supports user-defined wrappers", () => {
+  const custom = compileRedirects([
+    { host: "go.example.com", param: "target" },
+    { host: "", param: "ignored" },
+  ]);
+
+  expect(unwrapUrl("https://go.example.com/r?target=https%3A%2F%2Fdocs.example", custom)).toBe(
+    "https://docs.example",
+  );
+});
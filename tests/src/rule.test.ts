@@ -0,0 +1,180 @@
+/**
+ * Unit tests for src/rule.ts
+ *
+ * Tests compiling rules from their settings and applying them in order:
+ * - literal and regex rules with flags and replacements
+ * - query parameter rules that rebuild URLs
+ * - redirect rules and rules limited to URLs by domain or URL pattern
+ */
+
+import { expect, test } from "vitest";
+import { BUILTIN_REDIRECTS } from "../../src/redirects.ts";
+import {
+  FilterListRule,
+  QueryParamRule,
+  RedirectPatternRule,
+  RedirectRule,
+  RemovalRule,
+  applyRules,
+  compileRule,
+  runRules,
+  validateRule,
+} from "../../src/rule.ts";
+import { createRule, type RuleConfig, type RuleMode } from "../../src/settings.ts";
+
+function rule(values: Partial<RuleConfig>) {
+  return compileRule(createRule(values));
+}
+
+test("compileRule: picks the rule class by mode", () => {
+  expect(rule({ pattern: "a", mode: "literal" })).toBeInstanceOf(RemovalRule);
+  expect(rule({ pattern: "a", mode: "regex" })).toBeInstanceOf(RemovalRule);
+  expect(rule({ pattern: "a", mode: "query" })).toBeInstanceOf(QueryParamRule);
+  expect(rule({ pattern: "a", mode: "redirect" })).toBeInstanceOf(RedirectPatternRule);
+  expect(rule({ pattern: "$removeparam=a", mode: "filter" })).toBeInstanceOf(FilterListRule);
+});
+
+test("compileRule: rejects empty and invalid patterns", () => {
+  expect(() => rule({ pattern: "" })).toThrow(/cannot be empty/);
+  expect(() => rule({ pattern: "(", mode: "regex" })).toThrow();
+});
+
+test("validateRule: reports the error and the column of broken regexes", () => {
+  const error = (pattern: string, mode: RuleMode = "regex") =>
+    validateRule(createRule({ pattern, mode }));
+
+  expect(error("a(b|c)+?")).toBeNull();
+  expect(error("(?<year>\\d{4})-(?:x)")).toBeNull();
+  expect(error("ab(c")).toMatchObject({
+    message: expect.stringMatching(/Unterminated group/),
+    column: 3,
+  });
+  expect(error("a)b")?.column).toBe(2);
+  expect(error("x[a-z")?.column).toBe(2);
+  expect(error("a|*b")?.column).toBe(3);
+  expect(error("a{2}{3}")?.column).toBe(5);
+  expect(error("ab\\")?.column).toBe(3);
+  expect(error("(?<a>x)(?<a>y)")).toEqual({
+    message: expect.stringMatching(/Duplicate capture group/),
+  });
+  expect(error("(", "literal")).toBeNull();
+  expect(error("zzz", "filter")).toEqual({ message: "No $removeparam filters found." });
+});
+
+test("applyRules: removes every occurrence of literal text", () => {
+  const rules = [rule({ pattern: "?utm_source=chatgpt.com" })];
+
+  expect(applyRules("a?utm_source=chatgpt.com b?utm_source=chatgpt.com", rules)).toBe("a b");
+  expect(applyRules(null, rules)).toBe("");
+});
+
+test("applyRules: literal replacements are inserted verbatim", () => {
+  const rules = [rule({ pattern: "price", replacement: "$1 $&" })];
+
+  expect(applyRules("price", rules)).toBe("$1 $&");
+});
+
+test("applyRules: regex replacements can use capture groups", () => {
+  const rules = [
+    rule({ pattern: "\\[(\\d+)\\]", mode: "regex", replacement: "[^$1]" }),
+    rule({ pattern: "(?<scheme>http)://", mode: "regex", replacement: "$<scheme>s://" }),
+  ];
+
+  expect(applyRules("see [1] and [23] at http://a.example", rules)).toBe(
+    "see [^1] and [^23] at https://a.example",
+  );
+});
+
+test("applyRules: flags are applied and the global flag is always set", () => {
+  expect(applyRules("A a", [rule({ pattern: "a", flags: "i" })])).toBe(" ");
+  expect(applyRules("> x\n> y", [rule({ pattern: "^> ", mode: "regex", flags: "m" })])).toBe(
+    "x\ny",
+  );
+  expect(applyRules("a\nb", [rule({ pattern: "a.b", mode: "regex", flags: "s" })])).toBe("");
+});
+
+test("applyRules: query parameter rules rebuild URLs", () => {
+  const rules = [rule({ pattern: "utm_*, fbclid", mode: "query" })];
+
+  expect(
+    applyRules("https://x.example/?utm_source=a&b=1 and https://y.example/?fbclid=z#top", rules),
+  ).toBe("https://x.example/?b=1 and https://y.example/#top");
+});
+
+test("applyRules: reports rules that changed the text", () => {
+  const rules = [rule({ pattern: "a", name: "First" }), rule({ pattern: "x", name: "Second" })];
+  const changed: string[] = [];
+  applyRules("abc", rules, (compiled, before, after) => {
+    changed.push(`${compiled.label}: ${before} -> ${after}`);
+  });
+
+  expect(changed).toEqual(["First: abc -> bc"]);
+});
+
+test("runRules: counts matches and changed URLs per rule", () => {
+  const rules = [
+    rule({ pattern: "a", name: "Letters" }),
+    rule({ pattern: "utm_*", mode: "query", name: "UTM" }),
+    rule({ pattern: "zzz", name: "Unused" }),
+  ];
+  const report = runRules("banana https://x.com/?utm_source=1&utm_medium=2 https://y.com/", rules);
+
+  expect(report.result).toBe("bnn https://x.com/ https://y.com/");
+  expect(report.matches).toBe(4);
+  expect(
+    report.changes.map(({ rule, matches, removed }) => [rule.label, matches, removed]),
+  ).toEqual([
+    ["Letters", 3, 3],
+    ["UTM", 1, 26],
+  ]);
+});
+
+test("applyRules: domain scoped rules only touch matching URLs", () => {
+  const rules = [
+    rule({ pattern: "ref", mode: "query", domains: ["*.amazon.com"] }),
+    rule({ pattern: "/ref=[^/?]*", mode: "regex", domains: ["*.amazon.com"] }),
+  ];
+
+  expect(
+    applyRules(
+      "ref: https://www.amazon.com/dp/1/ref=sr_1?ref=x&th=1 vs https://github.com/a/b/compare?ref=main",
+      rules,
+    ),
+  ).toBe("ref: https://www.amazon.com/dp/1?th=1 vs https://github.com/a/b/compare?ref=main");
+});
+
+test("applyRules: redirect links are unwrapped before other rules run", () => {
+  const rules = [new RedirectRule(BUILTIN_REDIRECTS), rule({ pattern: "utm_*", mode: "query" })];
+  const wrapped = `https://www.google.com/url?q=${encodeURIComponent("https://example.com/?utm_source=google&id=1")}&sa=D`;
+
+  expect(applyRules(`[Example](${wrapped})`, rules)).toBe("[Example](https://example.com/?id=1)");
+});
+
+test("applyRules: URL pattern and exceptions limit rules to matching URLs", () => {
+  const rules = [
+    rule({
+      pattern: "ref",
+      mode: "query",
+      urlPattern: "^https?://(?:www\\.)?example\\.com",
+      urlExceptions: ["^https?://example\\.com/keep"],
+    }),
+  ];
+
+  expect(
+    applyRules(
+      "https://EXAMPLE.com/a?ref=1 https://example.com/keep?ref=2 https://other.com/?ref=3",
+      rules,
+    ),
+  ).toBe("https://EXAMPLE.com/a https://example.com/keep?ref=2 https://other.com/?ref=3");
+});
+
+test("applyRules: redirect rules replace URLs with the decoded target", () => {
+  const rules = [rule({ pattern: "^https?://example\\.com/out\\?to=([^&]+)", mode: "redirect" })];
+
+  expect(
+    applyRules(
+      "[a](https://example.com/out?to=https%3A%2F%2Fobsidian.md%2F) https://example.com/out?to=javascript%3Aalert(1)",
+      rules,
+    ),
+  ).toBe("[a](https://obsidian.md/) https://example.com/out?to=javascript%3Aalert(1)");
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for src/ruleFile.ts
+ *
+ * Tests exporting and importing rule files:
+ * - compact exported rules that read back unchanged
+ * - skipped rules listed as problems, and data that is no rule file
+ * - stable ids for rule sets and rules without one
+ * - merging into sets by id or name, skipping duplicates and taken ids
+ */
+
+import { expect, test } from "vitest";
+import { createRuleFile, mergeRuleSets, readRuleFile } from "../../src/ruleFile.ts";
+import { createRule, createRuleSet, createTestCase } from "../../src/settings.ts";
+
+test("createRuleFile: leaves out defaults and reads back unchanged", () => {
+  const rule = createRule({ id: "r1", pattern: "utm_*", mode: "query", domains: ["x.com"] });
+  const testCase = createTestCase({ input: "a", expected: "b" });
+  const ruleSet = createRuleSet({
+    id: "s1",
+    name: "Tracking",
+    collapsed: true,
+    rules: [rule],
+    tests: [testCase],
+  });
+
+  const data = createRuleFile([ruleSet]);
+  expect(data).toEqual({
+    pasteCleanerRules: 1,
+    ruleSets: [
+      {
+        id: "s1",
+        name: "Tracking",
+        enabled: true,
+        rules: [{ id: "r1", mode: "query", pattern: "utm_*", domains: ["x.com"] }],
+        tests: [{ name: "", input: "a", expected: "b" }],
+      },
+    ],
+  });
+
+  const { ruleSets, problems } = readRuleFile(JSON.parse(JSON.stringify(data)));
+  expect(problems).toEqual([]);
+  expect(ruleSets).toEqual([
+    { ...ruleSet, collapsed: false, tests: [{ ...testCase, id: ruleSets[0].tests[0].id }] },
+  ]);
+});
+
+test("readRuleFile: skips broken rules and lists why", () => {
+  const { ruleSets, problems } = readRuleFile({
+    ruleSets: [
+      {
+        name: "Mixed",
+        rules: [
+          { pattern: "ok" },
+          { mode: "query" },
+          { pattern: "x", mode: "magic" },
+          { pattern: "(", mode: "regex" },
+          "bogus",
+        ],
+      },
+      { name: "Empty" },
+    ],
+  });
+
+  expect(ruleSets.map((ruleSet) => ruleSet.rules.map((rule) => rule.pattern))).toEqual([
+    ["ok"],
+    [],
+  ]);
+  expect(problems).toHaveLength(5);
+  expect(problems[0]).toBe('Rule 2 of "Mixed" has no pattern.');
+  expect(problems[1]).toBe('Rule 3 of "Mixed" has an unknown type "magic".');
+  expect(problems[2]).toBe('Rule 5 of "Mixed" is not a rule.');
+  expect(problems[3]).toMatch(/^Rule "\(" of "Mixed": /);
+  expect(problems[4]).toBe('Rule set "Empty" has no rules list.');
+});
+
+test("readRuleFile: derives the same ids for entries without one on every read", () => {
+  const data = {
+    ruleSets: [
+      { name: "Notes", rules: [{ pattern: "a" }, { pattern: "a" }, { id: "kept", pattern: "b" }] },
+      { name: "Notes", rules: [{ pattern: "a" }] },
+    ],
+  };
+  const ids = (contents: ReturnType<typeof readRuleFile>) =>
+    contents.ruleSets.map((ruleSet) => [ruleSet.id, ...ruleSet.rules.map((rule) => rule.id)]);
+
+  const first = ids(readRuleFile(data));
+  expect(ids(readRuleFile(data))).toEqual(first);
+  expect(first[0][3]).toBe("kept");
+  expect(new Set(first[0].concat(first[1])).size).toBe(6);
+});
+
+test("readRuleFile: rejects data without rule sets and newer formats", () => {
+  expect(() => readRuleFile({ rules: [] })).toThrow("the ruleSets list is missing");
+  expect(() => readRuleFile("text")).toThrow("the ruleSets list is missing");
+  expect(() => readRuleFile({ pasteCleanerRules: 2, ruleSets: [] })).toThrow("version 2");
+});
+
+test("mergeRuleSets: adds new rules to matching sets and skips duplicates", () => {
+  const existing = [
+    createRuleSet({
+      id: "s1",
+      name: "Tracking",
+      rules: [createRule({ id: "r1", pattern: "utm_*", mode: "query" })],
+    }),
+  ];
+  const imported = [
+    createRuleSet({
+      id: "other",
+      name: " tracking ",
+      rules: [
+        createRule({ id: "r9", pattern: "utm_*", mode: "query", name: "Renamed" }),
+        createRule({ id: "r1", pattern: "fbclid", mode: "query" }),
+      ],
+      tests: [createTestCase({ input: "a", expected: "b" })],
+    }),
+    createRuleSet({ id: "s2", name: "New", rules: [createRule({ id: "r3", pattern: "x" })] }),
+  ];
+
+  const { ruleSets, added, duplicates } = mergeRuleSets(existing, imported, "merge");
+  expect(added).toBe(2);
+  expect(duplicates).toBe(1);
+  expect(ruleSets.map((ruleSet) => ruleSet.id)).toEqual(["s1", "s2"]);
+  expect(ruleSets[0].rules.map((rule) => rule.pattern)).toEqual(["utm_*", "fbclid"]);
+  expect(ruleSets[0].rules[1].id).not.toBe("r1");
+  expect(ruleSets[0].tests).toHaveLength(1);
+  expect(existing[0].rules).toHaveLength(1);
+});
+
+test("mergeRuleSets: replaces all rule sets", () => {
+  const existing = [createRuleSet({ rules: [createRule({ pattern: "a" })] })];
+  const imported = [createRuleSet({ rules: [createRule({ pattern: "b" })] })];
+
+  expect(mergeRuleSets(existing, imported, "replace")).toEqual({
+    ruleSets: imported,
+    added: 1,
+    duplicates: 0,
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for src/rulesNote.ts
+ *
+ * Tests finding the rules in a note:
+ * - the first paste-cleaner code block, other code blocks are skipped
+ * - longer fences and tildes, blocks left open
+ * - notes created from rule file YAML read back
+ */
+
+import { expect, test } from "vitest";
+import { createRulesNote, findRulesBlock } from "../../src/rulesNote.ts";
+
+test("findRulesBlock: returns the content of the first paste-cleaner block", () => {
+  const note = [
+    "# Rules",
+    "",
+    "```yaml",
+    "ruleSets: []",
+    "```",
+    "",
+    "```paste-cleaner",
+    "ruleSets:",
+    "  - name: First",
+    "```",
+    "",
+    "```paste-cleaner",
+    "ruleSets: []",
+    "```",
+  ].join("\n");
+
+  expect(findRulesBlock(note)).toBe("ruleSets:\n  - name: First");
+});
+
+test("findRulesBlock: handles other fences and blocks left open", () => {
+  const nested = ["````markdown", "```paste-cleaner", "not: rules", "```", "````"].join("\n");
+  expect(findRulesBlock(nested)).toBeNull();
+
+  expect(findRulesBlock("~~~Paste-Cleaner\r\nruleSets: []\r\n~~~\r\n")).toBe("ruleSets: []");
+  expect(findRulesBlock("Intro\n```paste-cleaner\nruleSets: []\n")).toBe("ruleSets: []\n");
+  expect(findRulesBlock("No rules here")).toBeNull();
+});
+
+test("createRulesNote: wraps the YAML in a paste-cleaner block", () => {
+  const yaml = "pasteCleanerRules: 1\nruleSets: []\n";
+  expect(findRulesBlock(createRulesNote(yaml))).toBe("pasteCleanerRules: 1\nruleSets: []");
+});
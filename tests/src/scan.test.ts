@@ -0,0 +1,51 @@
+/**
+ * Unit tests for src/scan.ts
+ *
+ * Tests locating rule matches in notes for the scan report:
+ * - line and column of text and URL matches
+ * - grouping by rule and leaving out rules without matches
+ */
+
+import { expect, test } from "vitest";
+import { compileRule } from "../../src/rule.ts";
+import { scanText } from "../../src/scan.ts";
+import { createRule } from "../../src/settings.ts";
+
+test("scanText: locates matches by line and column", () => {
+  const rules = [
+    compileRule(createRule({ pattern: "utm_*", mode: "query", name: "UTM" })),
+    compileRule(createRule({ pattern: "\\[\\d+\\]", mode: "regex", name: "Citations" })),
+    compileRule(createRule({ pattern: "never", name: "Unused" })),
+  ];
+  const text = "# Note\nSee [1] and [2].\n- [Link](https://x.com/?utm_source=a)\n";
+
+  expect(
+    scanText(text, rules).map(({ rule, matches }) => ({
+      label: rule.label,
+      matches: matches.map(({ line, ch, text }) => ({ line, ch, text })),
+    })),
+  ).toEqual([
+    {
+      label: "UTM",
+      matches: [{ line: 2, ch: 9, text: "https://x.com/?utm_source=a" }],
+    },
+    {
+      label: "Citations",
+      matches: [
+        { line: 1, ch: 4, text: "[1]" },
+        { line: 1, ch: 12, text: "[2]" },
+      ],
+    },
+  ]);
+  expect(scanText(text, rules)[1].matches[0].lineText).toBe("See [1] and [2].");
+});
+
+test("scanText: domain scoped matches point into the note", () => {
+  const rules = [
+    compileRule(createRule({ pattern: "/ref=[^/?]*", mode: "regex", domains: ["*.amazon.com"] })),
+  ];
+
+  expect(scanText("a /ref=x https://amazon.com/dp/1/ref=sr_1", rules)[0].matches).toEqual([
+    { line: 0, ch: 32, text: "/ref=sr_1", lineText: "a /ref=x https://amazon.com/dp/1/ref=sr_1" },
+  ]);
+});
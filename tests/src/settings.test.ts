@@ -0,0 +1,34 @@
+/**
+ * Unit tests for src/settings.ts
+ *
+ * Tests reordering rules within a rule set:
+ * - moving rules up and down in a single step
+ * - ignoring positions out of range
+ */
+
+import { expect, test } from "vitest";
+import { createRule, createRuleSet, moveRule } from "../../src/settings.ts";
+
+function ruleSetWith(...ids: string[]) {
+  return createRuleSet({ rules: ids.map((id) => createRule({ id, pattern: id })) });
+}
+
+test("moveRule: moves a rule to the given position", () => {
+  const ruleSet = ruleSetWith("a", "b", "c", "d");
+
+  expect(moveRule(ruleSet, 0, 2)).toBe(true);
+  expect(ruleSet.rules.map((rule) => rule.id)).toEqual(["b", "c", "a", "d"]);
+
+  expect(moveRule(ruleSet, 3, 0)).toBe(true);
+  expect(ruleSet.rules.map((rule) => rule.id)).toEqual(["d", "b", "c", "a"]);
+});
+
+test("moveRule: leaves the rules alone for positions out of range", () => {
+  const ruleSet = ruleSetWith("a", "b");
+
+  expect(moveRule(ruleSet, 0, -1)).toBe(false);
+  expect(moveRule(ruleSet, 1, 2)).toBe(false);
+  expect(moveRule(ruleSet, -1, 0)).toBe(false);
+  expect(moveRule(ruleSet, 1, 1)).toBe(false);
+  expect(ruleSet.rules.map((rule) => rule.id)).toEqual(["a", "b"]);
+});
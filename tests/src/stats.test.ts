@@ -0,0 +1,42 @@
+/**
+ * Unit tests for src/stats.ts
+ *
+ * Tests the lifetime rule statistics:
+ * - accumulating matches, removed characters and the last match time
+ * - listing rules that never matched or not for a while
+ */
+
+import { expect, test } from "vitest";
+import { compileRule, runRules } from "../../src/rule.ts";
+import { createRule, createRuleSet, type RuleStats } from "../../src/settings.ts";
+import { addRuleStats, findStaleRules } from "../../src/stats.ts";
+
+test("addRuleStats: accumulates the changes of every run", () => {
+  const rule = compileRule(createRule({ id: "letters", pattern: "a" }));
+  const ruleStats: Record<string, RuleStats> = {};
+
+  addRuleStats(ruleStats, runRules("banana", [rule]).changes, 1000);
+  addRuleStats(ruleStats, runRules("abc", [rule]).changes, 2000);
+  addRuleStats(ruleStats, runRules("xyz", [rule]).changes, 3000);
+
+  expect(ruleStats).toEqual({ letters: { matches: 4, removed: 4, lastMatched: 2000 } });
+});
+
+test("findStaleRules: lists enabled rules of enabled sets that never matched first, then the oldest", () => {
+  const used = createRule({ id: "used", pattern: "a" });
+  const old = createRule({ id: "old", pattern: "b" });
+  const never = createRule({ id: "never", pattern: "c" });
+  const disabled = createRule({ id: "disabled", pattern: "d", enabled: false });
+  const empty = createRule({ id: "empty" });
+  const ruleSet = createRuleSet({ rules: [used, old, never, disabled, empty] });
+  const ruleStats: Record<string, RuleStats> = {
+    used: { matches: 5, removed: 5, lastMatched: 5000 },
+    old: { matches: 1, removed: 1, lastMatched: 1000 },
+  };
+
+  const disabledSet = createRuleSet({ enabled: false, rules: [createRule({ pattern: "e" })] });
+
+  expect(
+    findStaleRules([ruleSet, disabledSet], ruleStats, 4000).map(({ rule }) => rule.id),
+  ).toEqual(["never", "old"]);
+});
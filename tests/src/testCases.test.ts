@@ -0,0 +1,31 @@
+/**
+ * Unit tests for src/testCases.ts
+ *
+ * Tests running saved test cases through the rules of a set:
+ * - passing and failing cases with the actual output
+ * - cases that expect the input to stay unchanged
+ */
+
+import { expect, test } from "vitest";
+import { compileRule } from "../../src/rule.ts";
+import { createRule, createTestCase } from "../../src/settings.ts";
+import { runTestCases } from "../../src/testCases.ts";
+
+test("runTestCases: compares the output of the rules to the expected text", () => {
+  const rules = [
+    compileRule(createRule({ pattern: "utm_*", mode: "query" })),
+    compileRule(createRule({ pattern: "colour", replacement: "color" })),
+  ];
+  const passing = createTestCase({
+    input: "https://x.com/?utm_source=a&id=1",
+    expected: "https://x.com/?id=1",
+  });
+  const failing = createTestCase({ input: "colour ?ref=1", expected: "color" });
+  const unchanged = createTestCase({ input: "plain text", expected: "plain text" });
+
+  expect(runTestCases([passing, failing, unchanged], rules)).toEqual([
+    { testCase: passing, actual: "https://x.com/?id=1", passed: true },
+    { testCase: failing, actual: "color ?ref=1", passed: false },
+    { testCase: unchanged, actual: "plain text", passed: true },
+  ]);
+});
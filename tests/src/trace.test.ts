@@ -0,0 +1,64 @@
+/**
+ * Unit tests for src/trace.ts
+ *
+ * Tests tracing which rule changed which part of a text:
+ * - removed characters attributed to the rule that removed them
+ * - added text placed where it was inserted
+ * - intermediate results of every step
+ */
+
+import { expect, test } from "vitest";
+import { compileRule } from "../../src/rule.ts";
+import { createRule, type RuleConfig } from "../../src/settings.ts";
+import { traceRules } from "../../src/trace.ts";
+
+function rule(values: Partial<RuleConfig>) {
+  return compileRule(createRule(values));
+}
+
+test("traceRules: attributes removed characters to their rule", () => {
+  const trace = traceRules("banana https://x.com/?utm_source=1&b=2", [
+    rule({ pattern: "a", name: "Letters" }),
+    rule({ pattern: "utm_*", mode: "query", name: "UTM" }),
+    rule({ pattern: "zzz" }),
+  ]);
+
+  expect(trace.result).toBe("bnn https://x.com/?b=2");
+  expect(trace.steps.map(({ rule, matches, after }) => [rule.label, matches, after])).toEqual([
+    ["Letters", 3, "bnn https://x.com/?utm_source=1&b=2"],
+    ["UTM", 1, "bnn https://x.com/?b=2"],
+  ]);
+  expect(trace.segments).toEqual([
+    { type: "equal", text: "b", step: -1 },
+    { type: "removed", text: "a", step: 0 },
+    { type: "equal", text: "n", step: -1 },
+    { type: "removed", text: "a", step: 0 },
+    { type: "equal", text: "n", step: -1 },
+    { type: "removed", text: "a", step: 0 },
+    { type: "equal", text: " https://x.com/?", step: -1 },
+    { type: "removed", text: "utm_source=1&", step: 1 },
+    { type: "equal", text: "b=2", step: -1 },
+  ]);
+});
+
+test("traceRules: places replacements and drops text removed again later", () => {
+  const trace = traceRules("one two", [
+    rule({ pattern: "two", replacement: "2 and more" }),
+    rule({ pattern: " and more" }),
+  ]);
+
+  expect(trace.result).toBe("one 2");
+  expect(trace.segments).toEqual([
+    { type: "equal", text: "one ", step: -1 },
+    { type: "removed", text: "two", step: 0 },
+    { type: "added", text: "2", step: 0 },
+  ]);
+});
+
+test("traceRules: unchanged text has no steps", () => {
+  const trace = traceRules("plain", [rule({ pattern: "x" })]);
+
+  expect(trace.steps).toEqual([]);
+  expect(trace.segments).toEqual([{ type: "equal", text: "plain", step: -1 }]);
+  expect(traceRules("", [rule({ pattern: "x" })]).segments).toEqual([]);
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for src/url.ts
+ *
+ * Tests finding URLs in text and removing query parameters from them:
+ * - URL boundaries next to punctuation and Markdown syntax
+ * - re-serializing query strings and fragments
+ * - parameter name lists with exact names, prefixes and regular expressions
+ */
+
+import { expect, test } from "vitest";
+import {
+  parseDomainMatcher,
+  parseParamMatcher,
+  removeQueryParams,
+  replaceUrls,
+} from "../../src/url.ts";
+
+const removeUtm = (name: string) => name.startsWith("utm_");
+
+test("replaceUrls: passes every URL to the callback", () => {
+  const found: string[] = [];
+  replaceUrls("see https://a.example/x and http://b.example/?q=1 too", (url) => {
+    found.push(url);
+    return url;
+  });
+
+  expect(found).toEqual(["https://a.example/x", "http://b.example/?q=1"]);
+});
+
+test("replaceUrls: keeps trailing punctuation and Markdown syntax outside the URL", () => {
+  const found: string[] = [];
+  const text = "Read [this](https://a.example/page?utm_source=x). Or https://b.example/(c)!";
+  const result = replaceUrls(text, (url) => {
+    found.push(url);
+    return "<URL>";
+  });
+
+  expect(found).toEqual(["https://a.example/page?utm_source=x", "https://b.example/(c)"]);
+  expect(result).toBe("Read [this](<URL>). Or <URL>!");
+});
+
+test("removeQueryParams: removes the first parameter without breaking the URL", () => {
+  expect(removeQueryParams("https://x.example/?utm_source=a&b=1", removeUtm)).toBe(
+    "https://x.example/?b=1",
+  );
+});
+
+test("removeQueryParams: drops the question mark when no parameter is left", () => {
+  expect(removeQueryParams("https://x.example/p?utm_source=a&utm_medium=b", removeUtm)).toBe(
+    "https://x.example/p",
+  );
+});
+
+test("removeQueryParams: keeps the fragment", () => {
+  expect(removeQueryParams("https://x.example/p?utm_source=a#section", removeUtm)).toBe(
+    "https://x.example/p#section",
+  );
+  expect(removeQueryParams("https://x.example/p?a=1#:~:text=utm_x", removeUtm)).toBe(
+    "https://x.example/p?a=1#:~:text=utm_x",
+  );
+});
+
+test("removeQueryParams: filters query-like fragments", () => {
+  expect(removeQueryParams("https://x.example/#utm_source=a&page=2", removeUtm)).toBe(
+    "https://x.example/#page=2",
+  );
+  expect(removeQueryParams("https://x.example/#utm_source=a", removeUtm)).toBe(
+    "https://x.example/",
+  );
+});
+
+test("removeQueryParams: leaves URLs without matches untouched", () => {
+  const url = "https://x.example/?a=1&&b=%20#top";
+  expect(removeQueryParams(url, removeUtm)).toBe(url);
+});
+
+test("removeQueryParams: matches encoded parameter names", () => {
+  expect(removeQueryParams("https://x.example/?utm%5Fsource=a&b=1", removeUtm)).toBe(
+    "https://x.example/?b=1",
+  );
+});
+
+test("parseParamMatcher: exact names, prefixes and regular expressions", () => {
+  const matches = parseParamMatcher("fbclid, utm_*  /^mc_(cid|eid)$/", false);
+
+  expect(matches("fbclid")).toBe(true);
+  expect(matches("fbclid2")).toBe(false);
+  expect(matches("utm_campaign")).toBe(true);
+  expect(matches("mc_eid")).toBe(true);
+  expect(matches("mc_other")).toBe(false);
+  expect(matches("FBCLID")).toBe(false);
+});
+
+test("parseParamMatcher: ignores case when asked to", () => {
+  const matches = parseParamMatcher("fbclid utm_* /^mc_/", true);
+
+  expect(matches("FBCLID")).toBe(true);
+  expect(matches("UTM_Source")).toBe(true);
+  expect(matches("MC_cid")).toBe(true);
+});
+
+test("parseParamMatcher: regular expressions may contain separators", () => {
+  const matches = parseParamMatcher("/^(?:ref|utm_[a-z]{1,10})$/ /^a b$/, fbclid", false);
+
+  expect(matches("ref")).toBe(true);
+  expect(matches("utm_source")).toBe(true);
+  expect(matches("a b")).toBe(true);
+  expect(matches("fbclid")).toBe(true);
+  expect(matches("a")).toBe(false);
+});
+
+test("parseParamMatcher: rejects empty lists and invalid expressions", () => {
+  expect(() => parseParamMatcher(" , ", false)).toThrow(/cannot be empty/);
+  expect(() => parseParamMatcher("/(/", false)).toThrow();
+});
+
+test("parseDomainMatcher: matches hosts exactly, by subdomain wildcard or glob", () => {
+  const inScope = parseDomainMatcher(["*.amazon.com", "youtu.be", "amazon.*"]);
+
+  expect(inScope("https://amazon.com/dp/1?ref=x")).toBe(true);
+  expect(inScope("https://www.amazon.com/dp/1")).toBe(true);
+  expect(inScope("https://amazon.co.uk/dp/1")).toBe(true);
+  expect(inScope("http://YOUTU.BE/abc?t=1")).toBe(true);
+  expect(inScope("https://notamazon.com/")).toBe(false);
+  expect(inScope("https://www.youtu.be/")).toBe(false);
+  expect(inScope("https://user@youtu.be:443/x")).toBe(true);
+});